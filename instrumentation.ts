@@ -1,24 +1,44 @@
-// Uncomment this file to enable instrumentation and observability using OpenTelemetry
-// Refer to the docs for installation instructions: https://docs.medusajs.com/learn/debugging-and-testing/instrumentation
+// Local tracing for the performance routes, switched on with BENCHMARK_TRACING:
+//   BENCHMARK_TRACING=memory  keeps the latest spans in memory (BENCHMARK_TRACING_BUFFER_SIZE, default 10000)
+//   BENCHMARK_TRACING=jsonl   also appends every span to BENCHMARK_TRACING_FILE (default .medusa/traces/spans.jsonl)
+// The spans are read through /admin/performance/traces, no collector is needed.
+// To send the spans to Zipkin, Jaeger or another collector instead, pass its exporter to registerOtel.
+// Refer to the docs for more: https://docs.medusajs.com/learn/debugging-and-testing/instrumentation
 
-// import { registerOtel } from "@medusajs/medusa"
-// // If using an exporter other than Zipkin, require it here.
-// import { ZipkinExporter } from "@opentelemetry/exporter-zipkin"
+import { registerOtel } from "@medusajs/medusa";
+import {
+  LOCAL_TRACING_SINKS,
+  LocalTracingSink,
+  registerLocalSpanExporter,
+} from "./src/lib/performance/local-span-exporter";
 
-// // If using an exporter other than Zipkin, initialize it here.
-// const exporter = new ZipkinExporter({
-//   serviceName: 'my-medusa-project',
-// })
+export function register() {
+  const sink = process.env.BENCHMARK_TRACING;
+  if (!sink) {
+    return;
+  }
+  if (!(LOCAL_TRACING_SINKS as readonly string[]).includes(sink)) {
+    throw new Error(
+      `Unknown BENCHMARK_TRACING "${sink}". Use ${LOCAL_TRACING_SINKS.join(" or ")}`
+    );
+  }
 
-// export function register() {
-//   registerOtel({
-//     serviceName: 'medusajs',
-//     // pass exporter
-//     exporter,
-//     instrument: {
-//       http: true,
-//       workflows: true,
-//       query: true
-//     },
-//   })
-// }
\ No newline at end of file
+  const exporter = registerLocalSpanExporter({
+    sink: sink as LocalTracingSink,
+    bufferSize: process.env.BENCHMARK_TRACING_BUFFER_SIZE
+      ? Number(process.env.BENCHMARK_TRACING_BUFFER_SIZE)
+      : undefined,
+    file: process.env.BENCHMARK_TRACING_FILE,
+  });
+
+  registerOtel({
+    serviceName: "medusajs",
+    exporter,
+    instrument: {
+      http: true,
+      workflows: true,
+      query: true,
+      db: true,
+    },
+  });
+}
@@ -0,0 +1,353 @@
+import { defineRouteConfig } from "@medusajs/admin-sdk";
+import { ChartBar } from "@medusajs/icons";
+import {
+  Button,
+  Checkbox,
+  Container,
+  Heading,
+  Input,
+  Label,
+  StatusBadge,
+  Table,
+  Text,
+} from "@medusajs/ui";
+import { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { GeneratorMetadata } from "../../types";
+
+type PerformanceProduct = {
+  id: string;
+  title: string;
+  handle: string;
+  variant_count: number;
+  image_count: number;
+  generator: GeneratorMetadata | null;
+};
+
+type BenchmarkResult = {
+  id: number;
+  product: PerformanceProduct;
+  method: "GET" | "POST";
+  status: number | null;
+  iterations: number;
+  median?: number;
+  p95?: number;
+  max?: number;
+  // Stored benchmark run, its trace opens in the trace viewer
+  run_id?: string;
+  error?: string;
+};
+
+type SortKey =
+  | "title"
+  | "method"
+  | "variant_count"
+  | "image_count"
+  | "median"
+  | "p95"
+  | "max";
+
+const sortValue = (result: BenchmarkResult, key: SortKey) => {
+  switch (key) {
+    case "title":
+      return result.product.title;
+    case "method":
+      return result.method;
+    case "variant_count":
+    case "image_count":
+      return result.product[key];
+    default:
+      return result[key] ?? Number.POSITIVE_INFINITY;
+  }
+};
+
+// Number of products fetched per "Load more" page
+const PRODUCT_PAGE_SIZE = 50;
+
+const formatMs = (ms?: number) => (ms === undefined ? "-" : `${ms} ms`);
+
+const formatGenerator = (generator: GeneratorMetadata | null) =>
+  generator
+    ? `${generator.generator_template} · seed ${
+        generator.generator_seed ?? "random"
+      } · ${generator.image_width}px`
+    : "-";
+
+const PerformanceLabPage = () => {
+  const [products, setProducts] = useState<PerformanceProduct[]>([]);
+  const [productCount, setProductCount] = useState(0);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [iterations, setIterations] = useState(5);
+  const [running, setRunning] = useState(false);
+  const [results, setResults] = useState<BenchmarkResult[]>([]);
+  const [sort, setSort] = useState<{ key: SortKey; desc: boolean }>({
+    key: "median",
+    desc: true,
+  });
+
+  // The products route lists the products with the most variants first
+  const loadProducts = (offset: number) =>
+    fetch(
+      `/admin/performance/products?limit=${PRODUCT_PAGE_SIZE}&offset=${offset}`
+    )
+      .then((response) => response.json())
+      .then((body) => {
+        setProducts((previous) => [
+          ...previous.slice(0, offset),
+          ...(body.products ?? []),
+        ]);
+        setProductCount(body.count ?? 0);
+      });
+
+  useEffect(() => {
+    loadProducts(0);
+  }, []);
+
+  const toggleSelected = (id: string) => {
+    setSelected((previous) => {
+      const next = new Set(previous);
+      if (!next.delete(id)) {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const runBenchmarks = async (method: BenchmarkResult["method"]) => {
+    setRunning(true);
+
+    // Products run one after another so their timings don't affect each other
+    for (const product of products.filter((p) => selected.has(p.id))) {
+      const result: BenchmarkResult = {
+        id: Date.now(),
+        product,
+        method,
+        status: null,
+        iterations,
+      };
+
+      try {
+        const response = await fetch(
+          `/admin/performance/product/${product.id}?iterations=${iterations}`,
+          { method }
+        );
+        const body = await response.json().catch(() => ({}));
+
+        result.status = response.status;
+        result.median = body.benchmark?.summary.median;
+        result.p95 = body.benchmark?.summary.p95;
+        result.max = body.benchmark?.summary.max;
+        result.run_id = body.run_id;
+        if (!response.ok) {
+          result.error = body.message ?? response.statusText;
+        }
+      } catch (e) {
+        result.error = e instanceof Error ? e.message : String(e);
+      }
+
+      setResults((previous) => [...previous, result]);
+    }
+
+    setRunning(false);
+  };
+
+  const sortedResults = useMemo(
+    () =>
+      [...results].sort((a, b) => {
+        const aValue = sortValue(a, sort.key);
+        const bValue = sortValue(b, sort.key);
+        const order = aValue < bValue ? -1 : aValue > bValue ? 1 : 0;
+        return sort.desc ? -order : order;
+      }),
+    [results, sort]
+  );
+
+  const SortableHeader = ({
+    label,
+    column,
+  }: {
+    label: string;
+    column: SortKey;
+  }) => (
+    <Table.HeaderCell
+      className="cursor-pointer select-none"
+      onClick={() =>
+        setSort({
+          key: column,
+          desc: sort.key === column ? !sort.desc : true,
+        })
+      }
+    >
+      {label}
+      {sort.key === column ? (sort.desc ? " ↓" : " ↑") : ""}
+    </Table.HeaderCell>
+  );
+
+  return (
+    <div className="flex flex-col gap-2">
+      <Container className="flex flex-col gap-4">
+        <Heading>Performance Lab</Heading>
+        <div className="flex items-end gap-2">
+          <div className="flex flex-col gap-1">
+            <Label htmlFor="iterations" size="small">
+              Iterations
+            </Label>
+            <Input
+              id="iterations"
+              type="number"
+              min={1}
+              max={100}
+              value={iterations}
+              onChange={(e) => setIterations(Number(e.target.value) || 1)}
+            />
+          </div>
+          <Button
+            onClick={() => runBenchmarks("GET")}
+            disabled={running || !selected.size}
+            isLoading={running}
+          >
+            Run GET
+          </Button>
+          <Button
+            onClick={() => runBenchmarks("POST")}
+            disabled={running || !selected.size}
+            isLoading={running}
+          >
+            Run POST
+          </Button>
+        </div>
+
+        <Table>
+          <Table.Header>
+            <Table.Row>
+              <Table.HeaderCell>
+                <Checkbox
+                  checked={
+                    !!products.length && selected.size === products.length
+                  }
+                  onCheckedChange={(checked) =>
+                    setSelected(
+                      new Set(checked ? products.map((p) => p.id) : [])
+                    )
+                  }
+                />
+              </Table.HeaderCell>
+              <Table.HeaderCell>Product</Table.HeaderCell>
+              <Table.HeaderCell>Handle</Table.HeaderCell>
+              <Table.HeaderCell>Variants</Table.HeaderCell>
+              <Table.HeaderCell>Images</Table.HeaderCell>
+              <Table.HeaderCell>Generated with</Table.HeaderCell>
+            </Table.Row>
+          </Table.Header>
+          <Table.Body>
+            {products.map((product) => (
+              <Table.Row key={product.id}>
+                <Table.Cell>
+                  <Checkbox
+                    checked={selected.has(product.id)}
+                    onCheckedChange={() => toggleSelected(product.id)}
+                  />
+                </Table.Cell>
+                <Table.Cell>{product.title}</Table.Cell>
+                <Table.Cell>{product.handle}</Table.Cell>
+                <Table.Cell>{product.variant_count}</Table.Cell>
+                <Table.Cell>{product.image_count}</Table.Cell>
+                <Table.Cell
+                  title={
+                    product.generator
+                      ? `${product.generator.generator_profile ?? "no"} profile, generator v${product.generator.generator_version}`
+                      : undefined
+                  }
+                >
+                  {formatGenerator(product.generator)}
+                </Table.Cell>
+              </Table.Row>
+            ))}
+          </Table.Body>
+        </Table>
+        {products.length < productCount && (
+          <div className="flex items-center justify-between">
+            <Text size="small" className="text-ui-fg-subtle">
+              Showing {products.length} of {productCount} products
+            </Text>
+            <Button
+              size="small"
+              variant="secondary"
+              onClick={() => loadProducts(products.length)}
+            >
+              Load more
+            </Button>
+          </div>
+        )}
+      </Container>
+
+      <Container className="flex flex-col gap-4">
+        <Heading level="h2">Results</Heading>
+        {!results.length ? (
+          <Text size="small" className="text-ui-fg-subtle">
+            Select one or more products and run a benchmark to compare them.
+          </Text>
+        ) : (
+          <Table>
+            <Table.Header>
+              <Table.Row>
+                <SortableHeader label="Product" column="title" />
+                <SortableHeader label="Method" column="method" />
+                <SortableHeader label="Variants" column="variant_count" />
+                <SortableHeader label="Images" column="image_count" />
+                <Table.HeaderCell>Generated with</Table.HeaderCell>
+                <Table.HeaderCell>Runs</Table.HeaderCell>
+                <SortableHeader label="Median" column="median" />
+                <SortableHeader label="p95" column="p95" />
+                <SortableHeader label="Max" column="max" />
+                <Table.HeaderCell>Status</Table.HeaderCell>
+                <Table.HeaderCell>Trace</Table.HeaderCell>
+              </Table.Row>
+            </Table.Header>
+            <Table.Body>
+              {sortedResults.map((result) => (
+                <Table.Row key={`${result.id}-${result.product.id}`}>
+                  <Table.Cell>{result.product.title}</Table.Cell>
+                  <Table.Cell>{result.method}</Table.Cell>
+                  <Table.Cell>{result.product.variant_count}</Table.Cell>
+                  <Table.Cell>{result.product.image_count}</Table.Cell>
+                  <Table.Cell>
+                    {formatGenerator(result.product.generator)}
+                  </Table.Cell>
+                  <Table.Cell>{result.iterations}</Table.Cell>
+                  <Table.Cell>{formatMs(result.median)}</Table.Cell>
+                  <Table.Cell>{formatMs(result.p95)}</Table.Cell>
+                  <Table.Cell>{formatMs(result.max)}</Table.Cell>
+                  <Table.Cell title={result.error}>
+                    <StatusBadge color={result.error ? "red" : "green"}>
+                      {result.status ?? "Network error"}
+                    </StatusBadge>
+                  </Table.Cell>
+                  <Table.Cell>
+                    {result.run_id ? (
+                      <Link
+                        to={`/performance/traces?run_id=${result.run_id}`}
+                        className="text-ui-fg-interactive"
+                      >
+                        View
+                      </Link>
+                    ) : (
+                      "-"
+                    )}
+                  </Table.Cell>
+                </Table.Row>
+              ))}
+            </Table.Body>
+          </Table>
+        )}
+      </Container>
+    </div>
+  );
+};
+
+export const config = defineRouteConfig({
+  label: "Performance Lab",
+  icon: ChartBar,
+});
+
+export default PerformanceLabPage;
@@ -0,0 +1,316 @@
+import { defineRouteConfig } from "@medusajs/admin-sdk";
+import {
+  Button,
+  Container,
+  Heading,
+  Input,
+  Label,
+  StatusBadge,
+  Table,
+  Text,
+} from "@medusajs/ui";
+import { useEffect, useState } from "react";
+
+type Verdict = "pass" | "regressed" | "improved";
+
+type Baseline = {
+  id: string;
+  operation: string;
+  scenario: string;
+  shape_key: string;
+  label: string | null;
+  medusa_version: string | null;
+  median_ms: number;
+  p95_ms: number;
+  created_at: string;
+};
+
+// See BaselineComparison in src/lib/performance/baselines.ts
+type Comparison = {
+  operation: string;
+  scenario: string;
+  shape_key: string;
+  verdict: Verdict;
+  baseline: { label: string | null; median_ms: number; sample_count: number };
+  candidate: { median_ms: number; p95_ms: number; sample_count: number };
+  median_change: number;
+  p95_change: number;
+  test: { p_value: number; significant: boolean };
+};
+
+type CompareResponse = {
+  summary: Record<Verdict, number>;
+  comparisons: Comparison[];
+  without_baseline: {
+    operation: string;
+    scenario: string;
+    shape_key: string;
+  }[];
+};
+
+const VERDICT_COLORS: Record<Verdict, "green" | "red" | "blue"> = {
+  pass: "green",
+  regressed: "red",
+  improved: "blue",
+};
+
+const formatChange = (change: number) =>
+  `${change > 0 ? "+" : ""}${Math.round(change * 1000) / 10}%`;
+
+const readJson = async (response: Response) => {
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.message ?? response.statusText);
+  }
+  return body;
+};
+
+const RegressionsPage = () => {
+  const [baselines, setBaselines] = useState<Baseline[]>([]);
+  const [baselineLabel, setBaselineLabel] = useState("");
+  const [candidateLabel, setCandidateLabel] = useState("");
+  const [tolerance, setTolerance] = useState(10);
+  const [alpha, setAlpha] = useState(0.05);
+  const [result, setResult] = useState<CompareResponse>();
+  const [error, setError] = useState<string>();
+  const [loading, setLoading] = useState(false);
+
+  const loadBaselines = () =>
+    fetch(`/admin/performance/baselines`)
+      .then(readJson)
+      .then((body) => setBaselines(body.baselines ?? []));
+
+  useEffect(() => {
+    loadBaselines().catch((e) =>
+      setError(e instanceof Error ? e.message : String(e))
+    );
+  }, []);
+
+  const run = async (fn: () => Promise<void>) => {
+    setLoading(true);
+    setError(undefined);
+    try {
+      await fn();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+    setLoading(false);
+  };
+
+  const markBaseline = () =>
+    run(async () => {
+      await fetch(`/admin/performance/baselines`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ label: baselineLabel }),
+      }).then(readJson);
+      await loadBaselines();
+    });
+
+  const compare = () =>
+    run(async () => {
+      const params = new URLSearchParams({
+        label: candidateLabel,
+        tolerance: String(tolerance / 100),
+        alpha: String(alpha),
+      });
+      setResult(
+        await fetch(`/admin/performance/compare?${params}`).then(readJson)
+      );
+    });
+
+  return (
+    <div className="flex flex-col gap-2">
+      <Container className="flex flex-col gap-4">
+        <Heading>Baselines</Heading>
+        <div className="flex items-end gap-2">
+          <div className="flex flex-col gap-1">
+            <Label htmlFor="baseline-label" size="small">
+              Run label
+            </Label>
+            <Input
+              id="baseline-label"
+              placeholder="medusa-2.8.3"
+              value={baselineLabel}
+              onChange={(e) => setBaselineLabel(e.target.value)}
+            />
+          </div>
+          <Button
+            onClick={markBaseline}
+            disabled={loading || !baselineLabel}
+            isLoading={loading}
+          >
+            Mark as baseline
+          </Button>
+        </div>
+
+        {!baselines.length ? (
+          <Text size="small" className="text-ui-fg-subtle">
+            No baselines yet. Run the benchmarks with a label and mark those
+            runs as the baseline.
+          </Text>
+        ) : (
+          <Table>
+            <Table.Header>
+              <Table.Row>
+                <Table.HeaderCell>Operation</Table.HeaderCell>
+                <Table.HeaderCell>Scenario</Table.HeaderCell>
+                <Table.HeaderCell>Product shape</Table.HeaderCell>
+                <Table.HeaderCell>Label</Table.HeaderCell>
+                <Table.HeaderCell>Medusa</Table.HeaderCell>
+                <Table.HeaderCell>Median</Table.HeaderCell>
+                <Table.HeaderCell>p95</Table.HeaderCell>
+              </Table.Row>
+            </Table.Header>
+            <Table.Body>
+              {baselines.map((baseline) => (
+                <Table.Row key={baseline.id}>
+                  <Table.Cell>{baseline.operation}</Table.Cell>
+                  <Table.Cell>{baseline.scenario}</Table.Cell>
+                  <Table.Cell>{baseline.shape_key}</Table.Cell>
+                  <Table.Cell>{baseline.label ?? "-"}</Table.Cell>
+                  <Table.Cell>{baseline.medusa_version ?? "-"}</Table.Cell>
+                  <Table.Cell>{baseline.median_ms} ms</Table.Cell>
+                  <Table.Cell>{baseline.p95_ms} ms</Table.Cell>
+                </Table.Row>
+              ))}
+            </Table.Body>
+          </Table>
+        )}
+      </Container>
+
+      <Container className="flex flex-col gap-4">
+        <Heading level="h2">Compare</Heading>
+        <div className="flex items-end gap-2">
+          <div className="flex flex-col gap-1">
+            <Label htmlFor="candidate-label" size="small">
+              Run label
+            </Label>
+            <Input
+              id="candidate-label"
+              placeholder="medusa-2.10.3"
+              value={candidateLabel}
+              onChange={(e) => setCandidateLabel(e.target.value)}
+            />
+          </div>
+          <div className="flex flex-col gap-1">
+            <Label htmlFor="tolerance" size="small">
+              Tolerance (%)
+            </Label>
+            <Input
+              id="tolerance"
+              type="number"
+              min={0}
+              value={tolerance}
+              onChange={(e) => setTolerance(Number(e.target.value) || 0)}
+            />
+          </div>
+          <div className="flex flex-col gap-1">
+            <Label htmlFor="alpha" size="small">
+              Significance level
+            </Label>
+            <Input
+              id="alpha"
+              type="number"
+              min={0.0001}
+              max={0.5}
+              step={0.01}
+              value={alpha}
+              onChange={(e) => setAlpha(Number(e.target.value) || 0.05)}
+            />
+          </div>
+          <Button
+            onClick={compare}
+            disabled={loading || !candidateLabel}
+            isLoading={loading}
+          >
+            Compare
+          </Button>
+        </div>
+
+        {error && (
+          <Text size="small" className="text-ui-fg-error">
+            {error}
+          </Text>
+        )}
+
+        {result && (
+          <>
+            <div className="flex gap-2">
+              {(Object.keys(VERDICT_COLORS) as Verdict[]).map((verdict) => (
+                <StatusBadge key={verdict} color={VERDICT_COLORS[verdict]}>
+                  {result.summary[verdict]} {verdict}
+                </StatusBadge>
+              ))}
+            </div>
+            <Table>
+              <Table.Header>
+                <Table.Row>
+                  <Table.HeaderCell>Operation</Table.HeaderCell>
+                  <Table.HeaderCell>Scenario</Table.HeaderCell>
+                  <Table.HeaderCell>Product shape</Table.HeaderCell>
+                  <Table.HeaderCell>Baseline median</Table.HeaderCell>
+                  <Table.HeaderCell>Median</Table.HeaderCell>
+                  <Table.HeaderCell>Change</Table.HeaderCell>
+                  <Table.HeaderCell>p95 change</Table.HeaderCell>
+                  <Table.HeaderCell>p-value</Table.HeaderCell>
+                  <Table.HeaderCell>Verdict</Table.HeaderCell>
+                </Table.Row>
+              </Table.Header>
+              <Table.Body>
+                {result.comparisons.map((comparison) => (
+                  <Table.Row
+                    key={`${comparison.operation}-${comparison.scenario}-${comparison.shape_key}`}
+                  >
+                    <Table.Cell>{comparison.operation}</Table.Cell>
+                    <Table.Cell>{comparison.scenario}</Table.Cell>
+                    <Table.Cell>{comparison.shape_key}</Table.Cell>
+                    <Table.Cell
+                      title={`${comparison.baseline.sample_count} samples`}
+                    >
+                      {comparison.baseline.median_ms} ms
+                    </Table.Cell>
+                    <Table.Cell
+                      title={`${comparison.candidate.sample_count} samples`}
+                    >
+                      {comparison.candidate.median_ms} ms
+                    </Table.Cell>
+                    <Table.Cell>
+                      {formatChange(comparison.median_change)}
+                    </Table.Cell>
+                    <Table.Cell>
+                      {formatChange(comparison.p95_change)}
+                    </Table.Cell>
+                    <Table.Cell>{comparison.test.p_value}</Table.Cell>
+                    <Table.Cell>
+                      <StatusBadge color={VERDICT_COLORS[comparison.verdict]}>
+                        {comparison.verdict}
+                      </StatusBadge>
+                    </Table.Cell>
+                  </Table.Row>
+                ))}
+              </Table.Body>
+            </Table>
+            {!!result.without_baseline.length && (
+              <Text size="small" className="text-ui-fg-subtle">
+                No baseline for:{" "}
+                {result.without_baseline
+                  .map(
+                    (group) =>
+                      `${group.operation} ${group.scenario} (${group.shape_key})`
+                  )
+                  .join(", ")}
+              </Text>
+            )}
+          </>
+        )}
+      </Container>
+    </div>
+  );
+};
+
+export const config = defineRouteConfig({
+  label: "Regressions",
+});
+
+export default RegressionsPage;
@@ -0,0 +1,361 @@
+import { defineRouteConfig } from "@medusajs/admin-sdk";
+import {
+  Badge,
+  Button,
+  Container,
+  Heading,
+  StatusBadge,
+  Table,
+  Text,
+  clx,
+} from "@medusajs/ui";
+import { useEffect, useMemo, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+
+// See SerializedSpan in src/lib/performance/local-span-exporter.ts
+type Span = {
+  trace_id: string;
+  span_id: string;
+  parent_span_id: string | null;
+  name: string;
+  scope: string;
+  start_ms: number;
+  end_ms: number;
+  duration_ms: number;
+  status: { code: number; message?: string };
+  attributes: Record<string, unknown>;
+};
+
+type TraceSummary = {
+  trace_id: string;
+  name: string;
+  start_ms: number;
+  duration_ms: number;
+  span_count: number;
+};
+
+type SpanRow = {
+  span: Span;
+  depth: number;
+  onSlowestPath: boolean;
+};
+
+type SpanCategory = "http" | "workflow" | "step" | "query" | "db" | "other";
+
+const CATEGORY_COLORS: Record<SpanCategory, string> = {
+  http: "bg-ui-tag-purple-icon",
+  workflow: "bg-ui-tag-blue-icon",
+  step: "bg-ui-tag-green-icon",
+  query: "bg-ui-tag-orange-icon",
+  db: "bg-ui-tag-neutral-icon",
+  other: "bg-ui-tag-neutral-icon",
+};
+
+// OpenTelemetry status code of failed spans
+const STATUS_ERROR = 2;
+
+const categorize = (span: Span): SpanCategory => {
+  if (span.scope === "@medusajs/http") {
+    return "http";
+  }
+  if (span.name.startsWith("workflow:")) {
+    return "workflow";
+  }
+  if (span.name.startsWith("step:")) {
+    return "step";
+  }
+  if (span.scope === "@medusajs/query") {
+    return "query";
+  }
+  return span.scope.includes("pg") ? "db" : "other";
+};
+
+const formatMs = (ms: number) =>
+  ms >= 1000 ? `${(ms / 1000).toFixed(2)} s` : `${Math.round(ms * 10) / 10} ms`;
+
+/**
+ * Orders the spans depth-first by start time and marks the slowest path: from
+ * the longest root, the path that always follows the longest child
+ */
+const buildRows = (spans: Span[]): SpanRow[] => {
+  const ids = new Set(spans.map((span) => span.span_id));
+  const children = new Map<string | null, Span[]>();
+  for (const span of spans) {
+    // Spans whose parent was never exported are shown as roots
+    const parent =
+      span.parent_span_id && ids.has(span.parent_span_id)
+        ? span.parent_span_id
+        : null;
+    const siblings = children.get(parent) ?? [];
+    siblings.push(span);
+    children.set(parent, siblings);
+  }
+  for (const list of children.values()) {
+    list.sort((a, b) => a.start_ms - b.start_ms);
+  }
+
+  const slowestPath = new Set<string>();
+  const roots = children.get(null) ?? [];
+  let current = roots.reduce<Span | undefined>(
+    (slowest, span) =>
+      !slowest || span.duration_ms > slowest.duration_ms ? span : slowest,
+    undefined
+  );
+  while (current) {
+    slowestPath.add(current.span_id);
+    current = (children.get(current.span_id) ?? []).reduce<Span | undefined>(
+      (slowest, span) =>
+        !slowest || span.duration_ms > slowest.duration_ms ? span : slowest,
+      undefined
+    );
+  }
+
+  const rows: SpanRow[] = [];
+  const visit = (span: Span, depth: number) => {
+    rows.push({ span, depth, onSlowestPath: slowestPath.has(span.span_id) });
+    for (const child of children.get(span.span_id) ?? []) {
+      visit(child, depth + 1);
+    }
+  };
+  roots.forEach((root) => visit(root, 0));
+
+  return rows;
+};
+
+const Waterfall = ({ spans }: { spans: Span[] }) => {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const rows = useMemo(() => buildRows(spans), [spans]);
+  const start = Math.min(...spans.map((span) => span.start_ms));
+  const total = Math.max(...spans.map((span) => span.end_ms)) - start || 1;
+
+  return (
+    <div className="flex flex-col">
+      <div className="flex gap-3 pb-2">
+        {(Object.keys(CATEGORY_COLORS) as SpanCategory[]).map((category) => (
+          <div key={category} className="flex items-center gap-1">
+            <div
+              className={clx("h-2 w-2 rounded-sm", CATEGORY_COLORS[category])}
+            />
+            <Text size="xsmall" className="text-ui-fg-subtle">
+              {category}
+            </Text>
+          </div>
+        ))}
+        <Text size="xsmall" className="text-ui-fg-subtle">
+          · bold rows are on the slowest path
+        </Text>
+      </div>
+
+      {rows.map(({ span, depth, onSlowestPath }) => (
+        <div key={span.span_id} className="border-b border-ui-border-base">
+          <div
+            className={clx(
+              "flex cursor-pointer items-center gap-2 py-1 hover:bg-ui-bg-base-hover",
+              { "bg-ui-bg-highlight": onSlowestPath }
+            )}
+            onClick={() =>
+              setExpanded(expanded === span.span_id ? null : span.span_id)
+            }
+          >
+            <Text
+              size="xsmall"
+              weight={onSlowestPath ? "plus" : "regular"}
+              className={clx("w-2/5 truncate", {
+                "text-ui-fg-error": span.status.code === STATUS_ERROR,
+              })}
+              style={{ paddingLeft: depth * 12 }}
+              title={span.name}
+            >
+              {span.name}
+            </Text>
+            <div className="relative h-3 flex-1">
+              <div
+                className={clx(
+                  "absolute h-3 rounded-sm",
+                  CATEGORY_COLORS[categorize(span)],
+                  { "ring-2 ring-ui-tag-red-icon": onSlowestPath }
+                )}
+                style={{
+                  left: `${((span.start_ms - start) / total) * 100}%`,
+                  width: `${Math.max((span.duration_ms / total) * 100, 0.3)}%`,
+                }}
+              />
+            </div>
+            <Text size="xsmall" className="w-20 text-right">
+              {formatMs(span.duration_ms)}
+            </Text>
+          </div>
+          {expanded === span.span_id && (
+            <div className="flex flex-col gap-1 pb-2 pl-4">
+              <Text size="xsmall" className="text-ui-fg-subtle">
+                {span.scope} · starts at {formatMs(span.start_ms - start)}
+                {span.status.message ? ` · ${span.status.message}` : ""}
+              </Text>
+              <pre className="overflow-x-auto text-xs text-ui-fg-subtle">
+                {JSON.stringify(span.attributes, null, 2)}
+              </pre>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const TraceViewerPage = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const traceId = searchParams.get("trace_id");
+  const runId = searchParams.get("run_id");
+
+  const [traces, setTraces] = useState<TraceSummary[]>([]);
+  const [enabled, setEnabled] = useState(true);
+  const [spans, setSpans] = useState<Span[]>([]);
+  const [incomplete, setIncomplete] = useState(false);
+  const [error, setError] = useState<string>();
+  const [loading, setLoading] = useState(false);
+
+  const loadTraces = () =>
+    fetch(`/admin/performance/traces`)
+      .then(async (response) => {
+        const body = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          throw new Error(body.message ?? response.statusText);
+        }
+        setEnabled(body.enabled);
+        setTraces(body.traces ?? []);
+      })
+      .catch((e) => setError(e instanceof Error ? e.message : String(e)));
+
+  useEffect(() => {
+    loadTraces();
+  }, []);
+
+  useEffect(() => {
+    setSpans([]);
+    setIncomplete(false);
+    setError(undefined);
+    if (!traceId && !runId) {
+      return;
+    }
+
+    // A benchmark run links to the spans attached to it or still buffered
+    const url = runId
+      ? `/admin/performance/runs/${runId}`
+      : `/admin/performance/traces/${traceId}`;
+
+    setLoading(true);
+    fetch(url)
+      .then(async (response) => {
+        const body = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          throw new Error(body.message ?? response.statusText);
+        }
+        if (!body.spans?.length) {
+          throw new Error(
+            "The spans of this run are not available, record it with BENCHMARK_TRACING on"
+          );
+        }
+        setSpans(body.spans);
+        setIncomplete(!!body.incomplete);
+      })
+      .catch((e) => setError(e instanceof Error ? e.message : String(e)))
+      .finally(() => setLoading(false));
+  }, [traceId, runId]);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <Container className="flex flex-col gap-4">
+        <div className="flex items-center justify-between">
+          <Heading>Traces</Heading>
+          <Button size="small" variant="secondary" onClick={loadTraces}>
+            Refresh
+          </Button>
+        </div>
+        {/* With a trace selected, errors show in the waterfall instead */}
+        {error && !traceId && !runId && (
+          <Text size="small" className="text-ui-fg-error">
+            {error}
+          </Text>
+        )}
+        {!enabled ? (
+          <Text size="small" className="text-ui-fg-subtle">
+            Local tracing is off. Start the server with BENCHMARK_TRACING=memory
+            or BENCHMARK_TRACING=jsonl to capture spans.
+          </Text>
+        ) : !traces.length ? (
+          <Text size="small" className="text-ui-fg-subtle">
+            No traces captured yet. Run a benchmark to record one.
+          </Text>
+        ) : (
+          <Table>
+            <Table.Header>
+              <Table.Row>
+                <Table.HeaderCell>Request</Table.HeaderCell>
+                <Table.HeaderCell>Started</Table.HeaderCell>
+                <Table.HeaderCell>Duration</Table.HeaderCell>
+                <Table.HeaderCell>Spans</Table.HeaderCell>
+              </Table.Row>
+            </Table.Header>
+            <Table.Body>
+              {traces.map((trace) => (
+                <Table.Row
+                  key={trace.trace_id}
+                  className={clx("cursor-pointer", {
+                    "bg-ui-bg-highlight": trace.trace_id === traceId,
+                  })}
+                  onClick={() => setSearchParams({ trace_id: trace.trace_id })}
+                >
+                  <Table.Cell>{trace.name}</Table.Cell>
+                  <Table.Cell>
+                    {new Date(trace.start_ms).toLocaleTimeString()}
+                  </Table.Cell>
+                  <Table.Cell>{formatMs(trace.duration_ms)}</Table.Cell>
+                  <Table.Cell>{trace.span_count}</Table.Cell>
+                </Table.Row>
+              ))}
+            </Table.Body>
+          </Table>
+        )}
+      </Container>
+
+      {(traceId || runId) && (
+        <Container className="flex flex-col gap-4">
+          <div className="flex items-center gap-2">
+            <Heading level="h2">Waterfall</Heading>
+            <Badge size="2xsmall">
+              {runId ? `run ${runId}` : `trace ${traceId}`}
+            </Badge>
+            {!!spans.length && (
+              <StatusBadge color="grey">
+                {spans.length} spans ·{" "}
+                {formatMs(
+                  Math.max(...spans.map((span) => span.end_ms)) -
+                    Math.min(...spans.map((span) => span.start_ms))
+                )}
+              </StatusBadge>
+            )}
+          </div>
+          {loading && <Text size="small">Loading spans...</Text>}
+          {error && (
+            <Text size="small" className="text-ui-fg-error">
+              {error}
+            </Text>
+          )}
+          {incomplete && (
+            <Text size="small" className="text-ui-fg-subtle">
+              Some spans of this trace were dropped from the in-memory buffer.
+              Use BENCHMARK_TRACING=jsonl to keep every span.
+            </Text>
+          )}
+          {!!spans.length && <Waterfall spans={spans} />}
+        </Container>
+      )}
+    </div>
+  );
+};
+
+export const config = defineRouteConfig({
+  label: "Traces",
+});
+
+export default TraceViewerPage;
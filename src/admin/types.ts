@@ -0,0 +1,14 @@
+import type { GeneratedProductMetadata } from "../scripts/utils/product-generator";
+
+// How the product was generated, as stored in its metadata and returned by the performance routes
+export type GeneratorMetadata = GeneratedProductMetadata;
+
+/**
+ * Narrows product metadata to the generator metadata of a generated product.
+ * The generator name is repeated here so the admin bundle doesn't import the generator.
+ */
+export const isGeneratorMetadata = (
+  metadata?: Record<string, unknown> | null
+): metadata is GeneratorMetadata =>
+  metadata?.generator ===
+  ("performance-product-generator" satisfies GeneratorMetadata["generator"]);
@@ -1,31 +1,191 @@
 import { defineWidgetConfig } from "@medusajs/admin-sdk";
 import { AdminProduct, DetailWidgetProps } from "@medusajs/framework/types";
-import { Button, Container, Heading } from "@medusajs/ui";
+import {
+  Button,
+  Container,
+  Heading,
+  StatusBadge,
+  Text,
+  clx,
+} from "@medusajs/ui";
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { GeneratorMetadata, isGeneratorMetadata } from "../../types";
+
+// Number of runs kept in the history chart
+const HISTORY_SIZE = 20;
+
+type PerformanceRun = {
+  id: number;
+  method: "POST" | "GET";
+  status: number | null;
+  elapsed_ms: number;
+  variants?: number;
+  images?: number;
+  generator?: GeneratorMetadata | null;
+  // Stored benchmark run, its trace opens in the trace viewer
+  run_id?: string;
+  error?: string;
+};
+
+const formatMs = (ms: number) =>
+  ms >= 1000 ? `${(ms / 1000).toFixed(2)} s` : `${Math.round(ms)} ms`;
+
+const GeneratorDetails = ({ generator }: { generator: GeneratorMetadata }) => (
+  <div className="flex flex-col gap-1">
+    <Text size="small" weight="plus">
+      Generated input (v{generator.generator_version})
+    </Text>
+    <Text size="small" className="text-ui-fg-subtle">
+      Template: {generator.generator_template} · Profile:{" "}
+      {generator.generator_profile ?? "-"} · Seed:{" "}
+      {generator.generator_seed ?? "random"}
+    </Text>
+    <Text size="small" className="text-ui-fg-subtle">
+      Requested variants: {generator.requested_variants} · Images:{" "}
+      {generator.image_count} × {generator.image_width}px
+    </Text>
+    <Text size="small" className="text-ui-fg-subtle">
+      Prices per variant: {generator.price_currencies} currencies ·{" "}
+      {generator.region_prices} regions · {generator.price_rules} rules
+    </Text>
+  </div>
+);
+
+const RunHistoryChart = ({ runs }: { runs: PerformanceRun[] }) => {
+  const slowest = Math.max(...runs.map((run) => run.elapsed_ms), 1);
+
+  return (
+    <div className="flex h-24 items-end gap-1 border-b border-ui-border-base">
+      {runs.map((run) => (
+        <div
+          key={run.id}
+          title={`${run.method} ${run.status ?? "failed"} - ${formatMs(
+            run.elapsed_ms
+          )}`}
+          className={clx("flex-1 rounded-t-sm", {
+            "bg-ui-tag-red-icon": !!run.error,
+            "bg-ui-tag-blue-icon": !run.error && run.method === "POST",
+            "bg-ui-tag-green-icon": !run.error && run.method === "GET",
+          })}
+          style={{
+            height: `${Math.max((run.elapsed_ms / slowest) * 100, 2)}%`,
+          }}
+        />
+      ))}
+    </div>
+  );
+};
 
 // The widget
 const ProductDetailsWidget = ({ data }: DetailWidgetProps<AdminProduct>) => {
-  const triggerUpdateProductWorkflow = async () => {
-    await fetch(`/admin/performance/product/${data.id}`, {
-      method: "POST",
-    });
-  };
-  const queryProductWithVariantsId = async () => {
-    await fetch(`/admin/performance/product/${data.id}`, {
-      method: "GET",
-    });
+  const [runs, setRuns] = useState<PerformanceRun[]>([]);
+  const [running, setRunning] = useState<PerformanceRun["method"] | null>(null);
+
+  const runRequest = async (method: PerformanceRun["method"]) => {
+    setRunning(method);
+    const start = performance.now();
+    const run: PerformanceRun = {
+      id: Date.now(),
+      method,
+      status: null,
+      elapsed_ms: 0,
+    };
+
+    try {
+      const response = await fetch(`/admin/performance/product/${data.id}`, {
+        method,
+      });
+      const body = await response.json().catch(() => ({}));
+
+      run.status = response.status;
+      run.variants = body.product?.variants?.length;
+      run.images = body.product?.images?.length;
+      run.generator = body.generator;
+      run.run_id = body.run_id;
+      if (!response.ok) {
+        run.error = body.message ?? response.statusText;
+      }
+    } catch (e) {
+      run.error = e instanceof Error ? e.message : String(e);
+    }
+
+    run.elapsed_ms = performance.now() - start;
+    setRuns((previous) => [...previous, run].slice(-HISTORY_SIZE));
+    setRunning(null);
   };
 
+  const triggerUpdateProductWorkflow = () => runRequest("POST");
+  const queryProductWithVariantsId = () => runRequest("GET");
+
+  const lastRun = runs[runs.length - 1];
+  // Before the first run, fall back to the metadata the product was loaded with
+  const generator =
+    lastRun?.generator ??
+    (isGeneratorMetadata(data.metadata) ? data.metadata : null);
+
   return (
     <>
       <Container className="flex  flex-col gap-2">
         <Heading>Performance Test Widget</Heading>
-        <Button onClick={triggerUpdateProductWorkflow}>
+        <Button
+          onClick={triggerUpdateProductWorkflow}
+          isLoading={running === "POST"}
+          disabled={!!running}
+        >
           Trigger UpdateProductWorkflow
         </Button>
 
-        <Button onClick={queryProductWithVariantsId}>
+        <Button
+          onClick={queryProductWithVariantsId}
+          isLoading={running === "GET"}
+          disabled={!!running}
+        >
           Perform Query with variants.id
         </Button>
+
+        {lastRun && (
+          <div className="flex flex-col gap-1">
+            <div className="flex items-center justify-between">
+              <Text size="small" weight="plus">
+                Last run ({lastRun.method})
+              </Text>
+              <StatusBadge color={lastRun.error ? "red" : "green"}>
+                {lastRun.status ?? "Network error"}
+              </StatusBadge>
+            </div>
+            <Text size="small">Elapsed: {formatMs(lastRun.elapsed_ms)}</Text>
+            <Text size="small">
+              Variants: {lastRun.variants ?? data.variants?.length ?? "-"} ·
+              Images: {lastRun.images ?? data.images?.length ?? "-"}
+            </Text>
+            {lastRun.run_id && (
+              <Link
+                to={`/performance/traces?run_id=${lastRun.run_id}`}
+                className="txt-small text-ui-fg-interactive"
+              >
+                View trace
+              </Link>
+            )}
+            {lastRun.error && (
+              <Text size="small" className="text-ui-fg-error">
+                {lastRun.error}
+              </Text>
+            )}
+          </div>
+        )}
+
+        {generator && <GeneratorDetails generator={generator} />}
+
+        {runs.length > 0 && (
+          <div className="flex flex-col gap-1">
+            <Text size="small" className="text-ui-fg-subtle">
+              Last {runs.length} runs (slowest{" "}
+              {formatMs(Math.max(...runs.map((run) => run.elapsed_ms)))})
+            </Text>
+            <RunHistoryChart runs={runs} />
+          </div>
+        )}
       </Container>
     </>
   );
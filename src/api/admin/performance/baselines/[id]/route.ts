@@ -0,0 +1,16 @@
+import { MedusaRequest, MedusaResponse } from "@medusajs/framework";
+import { BENCHMARK_MODULE } from "../../../../../modules/benchmark";
+import BenchmarkModuleService from "../../../../../modules/benchmark/service";
+
+export async function DELETE(req: MedusaRequest, res: MedusaResponse) {
+  const benchmarkModuleService: BenchmarkModuleService =
+    req.scope.resolve(BENCHMARK_MODULE);
+
+  await benchmarkModuleService.softDeleteBenchmarkBaselines(req.params.id);
+
+  res.status(200).json({
+    id: req.params.id,
+    object: "benchmark_baseline",
+    deleted: true,
+  });
+}
@@ -0,0 +1,50 @@
+import { MedusaRequest, MedusaResponse } from "@medusajs/framework";
+import { markBaselines } from "../../../../lib/performance/baselines";
+import {
+  BENCHMARK_RUN_LIST_FIELDS,
+  buildRunFilters,
+} from "../../../../lib/performance/benchmark-runs";
+import { BENCHMARK_MODULE } from "../../../../modules/benchmark";
+import BenchmarkModuleService from "../../../../modules/benchmark/service";
+import {
+  AdminPerformanceCreateBaselineType,
+  AdminPerformanceListBaselinesParamsType,
+} from "../validators";
+
+/**
+ * Lists the active baselines, one per operation, scenario and product shape
+ */
+export async function GET(
+  req: MedusaRequest<unknown, AdminPerformanceListBaselinesParamsType>,
+  res: MedusaResponse
+) {
+  const benchmarkModuleService: BenchmarkModuleService =
+    req.scope.resolve(BENCHMARK_MODULE);
+
+  const baselines = await benchmarkModuleService.listBenchmarkBaselines(
+    req.validatedQuery,
+    { order: { operation: "ASC", scenario: "ASC" } }
+  );
+
+  res.status(200).json({ baselines });
+}
+
+/**
+ * Marks the selected runs, e.g. every run labelled "medusa-2.8.3", as the baseline
+ * of their operation, scenario and product shape
+ */
+export async function POST(
+  req: MedusaRequest<AdminPerformanceCreateBaselineType>,
+  res: MedusaResponse
+) {
+  const benchmarkModuleService: BenchmarkModuleService =
+    req.scope.resolve(BENCHMARK_MODULE);
+
+  const runs = await benchmarkModuleService.listBenchmarkRuns(
+    buildRunFilters(req.validatedBody),
+    { select: BENCHMARK_RUN_LIST_FIELDS }
+  );
+  const baselines = await markBaselines(req.scope, runs);
+
+  res.status(200).json({ baselines });
+}
@@ -0,0 +1,50 @@
+import { MedusaRequest, MedusaResponse } from "@medusajs/framework";
+import {
+  BASELINE_VERDICTS,
+  compareRunsWithBaselines,
+} from "../../../../lib/performance/baselines";
+import {
+  BENCHMARK_RUN_LIST_FIELDS,
+  buildRunFilters,
+} from "../../../../lib/performance/benchmark-runs";
+import { BENCHMARK_MODULE } from "../../../../modules/benchmark";
+import BenchmarkModuleService from "../../../../modules/benchmark/service";
+import { AdminPerformanceCompareParamsType } from "../validators";
+
+/**
+ * Compares the selected runs, e.g. every run labelled "medusa-2.10.3", with the
+ * baselines of their operation, scenario and product shape and returns a
+ * pass/regressed/improved verdict per scenario
+ */
+export async function GET(
+  req: MedusaRequest<unknown, AdminPerformanceCompareParamsType>,
+  res: MedusaResponse
+) {
+  const benchmarkModuleService: BenchmarkModuleService =
+    req.scope.resolve(BENCHMARK_MODULE);
+  const { tolerance, alpha, ...selection } = req.validatedQuery;
+
+  const runs = await benchmarkModuleService.listBenchmarkRuns(
+    buildRunFilters(selection),
+    { select: BENCHMARK_RUN_LIST_FIELDS }
+  );
+  const { comparisons, without_baseline } = await compareRunsWithBaselines(
+    req.scope,
+    runs,
+    { tolerance, alpha }
+  );
+
+  res.status(200).json({
+    tolerance,
+    alpha,
+    summary: Object.fromEntries(
+      BASELINE_VERDICTS.map((verdict) => [
+        verdict,
+        comparisons.filter((comparison) => comparison.verdict === verdict)
+          .length,
+      ])
+    ),
+    comparisons,
+    without_baseline,
+  });
+}
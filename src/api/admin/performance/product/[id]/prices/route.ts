@@ -0,0 +1,110 @@
+import { MedusaRequest, MedusaResponse } from "@medusajs/framework";
+import {
+  runBenchmark,
+  timed,
+} from "../../../../../../lib/performance/benchmark";
+import { recordBenchmarkRun } from "../../../../../../lib/performance/benchmark-runs";
+import { loadGeneratorMetadata } from "../../../../../../lib/performance/generator-metadata";
+import {
+  buildVariantPriceUpdates,
+  restoreVariantPrices,
+  runPriceUpdate,
+  VariantPriceUpdates,
+} from "../../../../../../lib/performance/price-updates";
+import {
+  createStepTimingCapture,
+  StepTimingCapture,
+} from "../../../../../../lib/performance/step-timings";
+import { AdminPerformancePriceUpdateParamsType } from "../../../validators";
+
+/**
+ * Updates every variant price of the product through the chosen workflow, so the
+ * cost of the price-set sync can be told apart from the variant and product saves.
+ * `currencies`, `region_prices` and `rules_per_variant` reshape the price sets for
+ * the run, the original prices are restored after every run.
+ */
+export async function POST(
+  req: MedusaRequest<unknown, AdminPerformancePriceUpdateParamsType>,
+  res: MedusaResponse
+) {
+  const {
+    workflow,
+    currencies,
+    region_prices,
+    rules_per_variant,
+    iterations,
+    warmup,
+    label,
+    record,
+  } = req.validatedQuery;
+
+  // The prices are rebuilt from the product's current state before every run
+  const prepareUpdates = () =>
+    buildVariantPriceUpdates(req.scope, req.params.id, {
+      currencies,
+      region_prices,
+      rules_per_variant,
+    });
+  const restoreUpdates = (input: VariantPriceUpdates) =>
+    restoreVariantPrices(req.scope, input);
+
+  let capture: StepTimingCapture = createStepTimingCapture();
+  let updates!: VariantPriceUpdates;
+  const runUpdate = async (input: VariantPriceUpdates) => {
+    capture = createStepTimingCapture();
+    updates = input;
+    return runPriceUpdate(req.scope, workflow, input, capture.events);
+  };
+
+  const describeRun = async (durations_ms: number[], runWarmup?: number) => {
+    const generator = await loadGeneratorMetadata(req.scope, req.params.id);
+    const runId = record
+      ? await recordBenchmarkRun(req.scope, {
+          operation: "prices.update",
+          scenario: workflow,
+          product_id: req.params.id,
+          product_shape: generator,
+          warmup: runWarmup,
+          durations_ms,
+          steps: capture.steps(),
+          label,
+          parameters: { currencies, region_prices, rules_per_variant },
+          metadata: { price_count: updates.price_count },
+        })
+      : null;
+
+    return {
+      product_id: req.params.id,
+      generator,
+      workflow,
+      variant_count: updates.variants.length,
+      price_count: updates.price_count,
+      steps: capture.steps(),
+      run_id: runId,
+    };
+  };
+
+  // Without iterations the route runs and times a single update
+  if (!iterations) {
+    const input = await prepareUpdates();
+    const { duration_ms } = await timed(() => runUpdate(input)).finally(() =>
+      restoreUpdates(input)
+    );
+    res
+      .status(200)
+      .json({ ...(await describeRun([duration_ms])), duration_ms });
+    return;
+  }
+
+  const { benchmark } = await runBenchmark(runUpdate, {
+    iterations,
+    warmup,
+    prepare: prepareUpdates,
+    cleanup: restoreUpdates,
+  });
+
+  res.status(200).json({
+    ...(await describeRun(benchmark.durations_ms, benchmark.warmup)),
+    benchmark,
+  });
+}
@@ -1,30 +1,256 @@
 import { MedusaRequest, MedusaResponse } from "@medusajs/framework";
 import { ContainerRegistrationKeys } from "@medusajs/framework/utils";
 import { updateProductsWorkflow } from "@medusajs/medusa/core-flows";
+import { runBenchmark, timed } from "../../../../../lib/performance/benchmark";
+import { recordBenchmarkRun } from "../../../../../lib/performance/benchmark-runs";
+import {
+  PRODUCT_FIELD_PRESET_NAMES,
+  PRODUCT_FIELD_PRESETS,
+} from "../../../../../lib/performance/field-presets";
+import { loadGeneratorMetadata } from "../../../../../lib/performance/generator-metadata";
+import {
+  captureQueries,
+  QueryCaptureReport,
+} from "../../../../../lib/performance/query-capture";
+import {
+  createStepTimingCapture,
+  StepTimingCapture,
+} from "../../../../../lib/performance/step-timings";
+import {
+  buildUpdateScenario,
+  cleanupUpdateScenario,
+  IMAGE_BATCH_SCENARIOS,
+  UpdateScenarioRun,
+} from "../../../../../lib/performance/update-scenarios";
+import {
+  AdminPerformanceGetProductParamsType,
+  AdminPerformanceQueryCaptureParamsType,
+  AdminPerformanceUpdateProductParamsType,
+} from "../../validators";
 
-export async function POST(req: MedusaRequest, res: MedusaResponse) {
-  const productResult = await updateProductsWorkflow(req.scope).run({
-    input: {
-      products: [
-        {
-          id: req.params.id,
+/**
+ * Runs `fn` and, when `capture_queries` is set, records the SQL it issues
+ */
+async function withQueryCapture<T>(
+  req: MedusaRequest<unknown, AdminPerformanceQueryCaptureParamsType>,
+  fn: () => Promise<T>
+): Promise<{ result: T; queries?: QueryCaptureReport }> {
+  const { capture_queries, repeat_threshold } = req.validatedQuery;
+  if (!capture_queries) {
+    return { result: await fn() };
+  }
+
+  return captureQueries(
+    req.scope.resolve(ContainerRegistrationKeys.PG_CONNECTION),
+    fn,
+    repeat_threshold
+  );
+}
+
+export async function POST(
+  req: MedusaRequest<unknown, AdminPerformanceUpdateProductParamsType>,
+  res: MedusaResponse
+) {
+  const { iterations, warmup, label, record, scenario, image_batch_size } =
+    req.validatedQuery;
+
+  // The scenario is rebuilt from the product's current state before every run and
+  // restored after it, so every run measures the same product
+  let lastRun: UpdateScenarioRun | undefined;
+  const prepareRun = async () => {
+    lastRun = await buildUpdateScenario(req.scope, req.params.id, scenario, {
+      imageCount: image_batch_size,
+    });
+    return lastRun;
+  };
+  const cleanupRun = (run: UpdateScenarioRun) =>
+    cleanupUpdateScenario(req.scope, run);
+  const parameters = IMAGE_BATCH_SCENARIOS.includes(scenario)
+    ? { image_batch_size }
+    : undefined;
+
+  // The image scenarios report the image count the product had during the run
+  const countImages = async () => {
+    if (lastRun?.input.images) {
+      return lastRun.input.images.length;
+    }
+
+    const {
+      data: [product],
+    } = await req.scope.resolve(ContainerRegistrationKeys.QUERY).graph({
+      entity: "product",
+      fields: ["images.id"],
+      filters: { id: req.params.id },
+    });
+    return product?.images?.length ?? 0;
+  };
+
+  // Every run gets a fresh capture, so the response reports the last run only
+  let capture: StepTimingCapture = createStepTimingCapture();
+  let queries: QueryCaptureReport | undefined;
+  const runUpdate = async ({ input }: UpdateScenarioRun) => {
+    capture = createStepTimingCapture();
+
+    const run = await withQueryCapture(req, () =>
+      updateProductsWorkflow(req.scope).run({
+        input: {
+          products: [input],
         },
-      ],
-    },
+        events: capture.events,
+      })
+    );
+    queries = run.queries;
+
+    return run.result;
+  };
+
+  // Without iterations the route behaves as a plain single save
+  if (!iterations) {
+    const run = await prepareRun();
+    const { result: productResult, duration_ms } = await timed(() =>
+      runUpdate(run)
+    ).finally(() => cleanupRun(run));
+    const generator = await loadGeneratorMetadata(req.scope, req.params.id);
+    const runId = record
+      ? await recordBenchmarkRun(req.scope, {
+          operation: "product.update",
+          scenario,
+          product_id: req.params.id,
+          product_shape: generator,
+          durations_ms: [duration_ms],
+          steps: capture.steps(),
+          queries,
+          label,
+          parameters,
+        })
+      : null;
+
+    res.status(200).json({
+      product: productResult.result[0],
+      generator,
+      scenario,
+      image_count: await countImages(),
+      duration_ms,
+      steps: capture.steps(),
+      queries,
+      run_id: runId,
+    });
+    return;
+  }
+
+  const { result: productResult, benchmark } = await runBenchmark(runUpdate, {
+    iterations,
+    warmup,
+    prepare: prepareRun,
+    cleanup: cleanupRun,
+  });
+
+  const generator = await loadGeneratorMetadata(req.scope, req.params.id);
+  const runId = record
+    ? await recordBenchmarkRun(req.scope, {
+        operation: "product.update",
+        scenario,
+        product_id: req.params.id,
+        product_shape: generator,
+        warmup: benchmark.warmup,
+        durations_ms: benchmark.durations_ms,
+        steps: capture.steps(),
+        queries,
+        label,
+        parameters,
+      })
+    : null;
+
+  res.status(200).json({
+    product: productResult.result[0],
+    generator,
+    scenario,
+    image_count: await countImages(),
+    steps: capture.steps(),
+    queries,
+    benchmark,
+    run_id: runId,
   });
-  res.status(200).json({ product: productResult.result[0] });
 }
 
-export async function GET(req: MedusaRequest, res: MedusaResponse) {
+export async function GET(
+  req: MedusaRequest<unknown, AdminPerformanceGetProductParamsType>,
+  res: MedusaResponse
+) {
   const query = req.scope.resolve(ContainerRegistrationKeys.QUERY);
+  const { fields, preset, compare_presets, iterations, warmup, label, record } =
+    req.validatedQuery;
+
+  const queryProduct = (graphFields: string[]) =>
+    timed(() =>
+      query.graph({
+        entity: "product",
+        fields: graphFields,
+        filters: { id: req.params.id },
+      })
+    );
+
+  // Custom fields take precedence over the preset and are normalized by the query config
+  const resolvedFields = fields
+    ? req.queryConfig.fields
+    : PRODUCT_FIELD_PRESETS[preset];
 
   const {
-    data: [Product],
-  } = await query.graph({
-    entity: "product",
-    fields: ["id", "title", "variants.id", "images.*"],
-    filters: { id: req.params.id },
-  });
+    result: {
+      result: {
+        data: [Product],
+      },
+      duration_ms,
+    },
+    queries,
+  } = await withQueryCapture(req, () => queryProduct(resolvedFields));
+
+  const benchmark = iterations
+    ? (
+        await runBenchmark(() => queryProduct(resolvedFields), {
+          iterations,
+          warmup,
+        })
+      ).benchmark
+    : undefined;
 
-  res.status(200).json({ product: Product });
+  const presets: { preset: string; fields: string[]; duration_ms: number }[] =
+    [];
+  if (compare_presets) {
+    for (const name of PRODUCT_FIELD_PRESET_NAMES) {
+      const run = await queryProduct(PRODUCT_FIELD_PRESETS[name]);
+      presets.push({
+        preset: name,
+        fields: PRODUCT_FIELD_PRESETS[name],
+        duration_ms: run.duration_ms,
+      });
+    }
+  }
+
+  const generator = await loadGeneratorMetadata(req.scope, req.params.id);
+  const runId = record
+    ? await recordBenchmarkRun(req.scope, {
+        operation: "product.get",
+        scenario: fields ? "custom" : preset,
+        product_id: req.params.id,
+        product_shape: generator,
+        warmup: benchmark?.warmup,
+        durations_ms: benchmark?.durations_ms ?? [duration_ms],
+        queries,
+        label,
+        parameters: fields ? { fields: resolvedFields } : undefined,
+      })
+    : null;
+
+  res.status(200).json({
+    product: Product,
+    generator,
+    preset: fields ? "custom" : preset,
+    fields: resolvedFields,
+    duration_ms,
+    queries,
+    benchmark,
+    presets: compare_presets ? presets : undefined,
+    run_id: runId,
+  });
 }
@@ -0,0 +1,78 @@
+import { MedusaRequest, MedusaResponse } from "@medusajs/framework";
+import { recordBenchmarkRun } from "../../../../../../lib/performance/benchmark-runs";
+import { loadGeneratorMetadata } from "../../../../../../lib/performance/generator-metadata";
+import { summarizeDurations } from "../../../../../../lib/performance/stats";
+import {
+  runVariantMutationCycle,
+  VARIANT_OPERATIONS,
+  VariantOperationTiming,
+} from "../../../../../../lib/performance/variant-mutations";
+import { AdminPerformanceVariantMutationParamsType } from "../../../validators";
+
+/**
+ * Creates, updates and deletes `batch_size` variants on the product and returns
+ * the duration of every workflow. The product keeps its original variants.
+ */
+export async function POST(
+  req: MedusaRequest<unknown, AdminPerformanceVariantMutationParamsType>,
+  res: MedusaResponse
+) {
+  const { batch_size, iterations, warmup = 0, label, record } =
+    req.validatedQuery;
+
+  for (let i = 0; i < warmup; i++) {
+    await runVariantMutationCycle(req.scope, req.params.id, batch_size);
+  }
+
+  // Without iterations the route runs a single cycle
+  const cycles: VariantOperationTiming[][] = [];
+  for (let i = 0; i < (iterations ?? 1); i++) {
+    cycles.push(
+      await runVariantMutationCycle(req.scope, req.params.id, batch_size)
+    );
+  }
+
+  const generator = await loadGeneratorMetadata(req.scope, req.params.id);
+  const lastCycle = cycles[cycles.length - 1];
+  const operations = VARIANT_OPERATIONS.map((operation) => ({
+    operation,
+    durations_ms: cycles.map(
+      (cycle) =>
+        cycle.find((timing) => timing.operation === operation)!.duration_ms
+    ),
+  }));
+
+  // Every operation is stored as its own run, so they can be compared separately
+  const runIds: Record<string, string> = {};
+  for (const { operation, durations_ms } of record ? operations : []) {
+    runIds[operation] = await recordBenchmarkRun(req.scope, {
+      operation: `variants.${operation}`,
+      scenario: `batch-${batch_size}`,
+      product_id: req.params.id,
+      product_shape: generator,
+      warmup,
+      durations_ms,
+      steps: lastCycle.find((timing) => timing.operation === operation)!.steps,
+      label,
+    });
+  }
+
+  res.status(200).json({
+    product_id: req.params.id,
+    generator,
+    batch_size,
+    operations: lastCycle,
+    benchmark: iterations
+      ? {
+          iterations,
+          warmup,
+          operations: operations.map(({ operation, durations_ms }) => ({
+            operation,
+            durations_ms,
+            summary: summarizeDurations(durations_ms),
+          })),
+        }
+      : undefined,
+    run_ids: record ? runIds : null,
+  });
+}
@@ -0,0 +1,53 @@
+import { MedusaRequest, MedusaResponse } from "@medusajs/framework";
+import { ContainerRegistrationKeys } from "@medusajs/framework/utils";
+import { pickGeneratorMetadata } from "../../../../lib/performance/generator-metadata";
+import { AdminPerformanceListProductsParamsType } from "../validators";
+
+/**
+ * Lists products with their variant and image counts, most variants first. The
+ * counts come from SQL aggregates, so large catalogs never load their relations.
+ */
+export async function GET(
+  req: MedusaRequest<unknown, AdminPerformanceListProductsParamsType>,
+  res: MedusaResponse
+) {
+  const knex = req.scope.resolve(ContainerRegistrationKeys.PG_CONNECTION);
+  const { limit, offset } = req.validatedQuery;
+
+  const countOf = (table: string) =>
+    knex(table)
+      .count("*")
+      .whereRaw("?? = ??", [`${table}.product_id`, "product.id"])
+      .whereNull(`${table}.deleted_at`);
+
+  const [products, [{ count }]] = await Promise.all([
+    knex("product")
+      .select("id", "title", "handle", "metadata")
+      .select({
+        variant_count: countOf("product_variant"),
+        image_count: countOf("image"),
+      })
+      .whereNull("deleted_at")
+      .orderBy([
+        { column: "variant_count", order: "desc" },
+        { column: "id", order: "asc" },
+      ])
+      .limit(limit)
+      .offset(offset),
+    knex("product").count("*").whereNull("deleted_at"),
+  ]);
+
+  res.status(200).json({
+    products: products.map((product) => ({
+      id: product.id,
+      title: product.title,
+      handle: product.handle,
+      variant_count: Number(product.variant_count),
+      image_count: Number(product.image_count),
+      generator: pickGeneratorMetadata(product.metadata),
+    })),
+    count: Number(count),
+    limit,
+    offset,
+  });
+}
@@ -0,0 +1,51 @@
+import { MedusaRequest, MedusaResponse } from "@medusajs/framework";
+import {
+  BENCHMARK_RUN_LIST_FIELDS,
+  buildRunFilters,
+} from "../../../../lib/performance/benchmark-runs";
+import {
+  buildBenchmarkReport,
+  formatBenchmarkReport,
+  REPORT_CONTENT_TYPES,
+  REPORT_FILE_EXTENSIONS,
+} from "../../../../lib/performance/report";
+import { BENCHMARK_MODULE } from "../../../../modules/benchmark";
+import BenchmarkModuleService from "../../../../modules/benchmark/service";
+import { AdminPerformanceReportParamsType } from "../validators";
+
+/**
+ * Exports the selected benchmark runs as JSON, CSV or a Markdown table with the
+ * environment details. CSV and Markdown are sent as a file download.
+ */
+export async function GET(
+  req: MedusaRequest<unknown, AdminPerformanceReportParamsType>,
+  res: MedusaResponse
+) {
+  const benchmarkModuleService: BenchmarkModuleService =
+    req.scope.resolve(BENCHMARK_MODULE);
+  const { format, limit, ...selection } = req.validatedQuery;
+
+  const runs = await benchmarkModuleService.listBenchmarkRuns(
+    buildRunFilters(selection),
+    {
+      select: BENCHMARK_RUN_LIST_FIELDS,
+      take: limit,
+      order: { created_at: "DESC" },
+    }
+  );
+  const report = buildBenchmarkReport(runs);
+
+  if (format === "json") {
+    res.status(200).json({ report });
+    return;
+  }
+
+  res
+    .status(200)
+    .setHeader("Content-Type", `${REPORT_CONTENT_TYPES[format]}; charset=utf-8`)
+    .setHeader(
+      "Content-Disposition",
+      `attachment; filename="benchmark-report.${REPORT_FILE_EXTENSIONS[format]}"`
+    )
+    .send(formatBenchmarkReport(report, format));
+}
@@ -0,0 +1,31 @@
+import { MedusaRequest, MedusaResponse } from "@medusajs/framework";
+import { getLocalSpanExporter } from "../../../../../lib/performance/local-span-exporter";
+import { BENCHMARK_MODULE } from "../../../../../modules/benchmark";
+import BenchmarkModuleService from "../../../../../modules/benchmark/service";
+
+/**
+ * Returns a run along with the spans of its trace: the attached ones, or the
+ * ones the local exporter still has
+ */
+export async function GET(req: MedusaRequest, res: MedusaResponse) {
+  const benchmarkModuleService: BenchmarkModuleService =
+    req.scope.resolve(BENCHMARK_MODULE);
+
+  const { trace, ...run } = await benchmarkModuleService.retrieveBenchmarkRun(
+    req.params.id
+  );
+  if (trace) {
+    res.status(200).json({ run, spans: trace, incomplete: false });
+    return;
+  }
+
+  const local = run.trace_id
+    ? await getLocalSpanExporter()?.getTrace(run.trace_id)
+    : undefined;
+
+  res.status(200).json({
+    run,
+    spans: local?.spans ?? null,
+    incomplete: local?.incomplete ?? false,
+  });
+}
@@ -0,0 +1,41 @@
+import { MedusaRequest, MedusaResponse } from "@medusajs/framework";
+import { MedusaError } from "@medusajs/framework/utils";
+import { getLocalSpanExporter } from "../../../../../../lib/performance/local-span-exporter";
+import { BENCHMARK_MODULE } from "../../../../../../modules/benchmark";
+import BenchmarkModuleService from "../../../../../../modules/benchmark/service";
+
+/**
+ * Stores the spans of the run's trace on the run, so the trace tree outlives the
+ * in-memory buffer and the trace file. Runs recorded with local tracing on get
+ * their spans attached once the request ended, this re-attaches them by hand.
+ */
+export async function POST(req: MedusaRequest, res: MedusaResponse) {
+  const benchmarkModuleService: BenchmarkModuleService =
+    req.scope.resolve(BENCHMARK_MODULE);
+
+  const run = await benchmarkModuleService.retrieveBenchmarkRun(req.params.id);
+  const local = run.trace_id
+    ? await getLocalSpanExporter()?.getTrace(run.trace_id)
+    : undefined;
+
+  if (!local?.spans.length) {
+    throw new MedusaError(
+      MedusaError.Types.NOT_FOUND,
+      run.trace_id
+        ? `Spans of trace ${run.trace_id} are no longer available`
+        : `Benchmark run ${run.id} was recorded without local tracing, start the server with BENCHMARK_TRACING=memory or jsonl`
+    );
+  }
+
+  const updated = await benchmarkModuleService.updateBenchmarkRuns({
+    id: run.id,
+    // json() properties are typed as plain records, the spans are stored as an array
+    trace: local.spans as unknown as Record<string, unknown>,
+  });
+
+  res.status(200).json({
+    run: updated,
+    spans: local.spans,
+    incomplete: local.incomplete,
+  });
+}
@@ -0,0 +1,35 @@
+import { MedusaRequest, MedusaResponse } from "@medusajs/framework";
+import {
+  BENCHMARK_RUN_LIST_FIELDS,
+  buildRunFilters,
+} from "../../../../lib/performance/benchmark-runs";
+import { BENCHMARK_MODULE } from "../../../../modules/benchmark";
+import BenchmarkModuleService from "../../../../modules/benchmark/service";
+import { AdminPerformanceListRunsParamsType } from "../validators";
+
+/**
+ * Lists recorded benchmark runs, newest first by default. Filtering by operation,
+ * scenario and version makes it easy to line up the same benchmark across upgrades.
+ */
+export async function GET(
+  req: MedusaRequest<unknown, AdminPerformanceListRunsParamsType>,
+  res: MedusaResponse
+) {
+  const benchmarkModuleService: BenchmarkModuleService =
+    req.scope.resolve(BENCHMARK_MODULE);
+  const { limit, offset, order, ...selection } = req.validatedQuery;
+
+  const [runs, count] = await benchmarkModuleService.listAndCountBenchmarkRuns(
+    buildRunFilters(selection),
+    {
+      select: BENCHMARK_RUN_LIST_FIELDS,
+      take: limit,
+      skip: offset,
+      order: {
+        [order.replace(/^-/, "")]: order.startsWith("-") ? "DESC" : "ASC",
+      },
+    }
+  );
+
+  res.status(200).json({ runs, count, limit, offset });
+}
@@ -0,0 +1,23 @@
+import { MedusaRequest, MedusaResponse } from "@medusajs/framework";
+import { MedusaError } from "@medusajs/framework/utils";
+import { getLocalSpanExporter } from "../../../../../lib/performance/local-span-exporter";
+
+export async function GET(req: MedusaRequest, res: MedusaResponse) {
+  const exporter = getLocalSpanExporter();
+  if (!exporter) {
+    throw new MedusaError(
+      MedusaError.Types.NOT_ALLOWED,
+      "Local tracing is off, start the server with BENCHMARK_TRACING=memory or jsonl"
+    );
+  }
+
+  const { spans, incomplete } = await exporter.getTrace(req.params.id);
+  if (!spans.length) {
+    throw new MedusaError(
+      MedusaError.Types.NOT_FOUND,
+      `Trace with id: ${req.params.id} was not found`
+    );
+  }
+
+  res.status(200).json({ trace_id: req.params.id, spans, incomplete });
+}
@@ -0,0 +1,20 @@
+import { MedusaRequest, MedusaResponse } from "@medusajs/framework";
+import { getLocalSpanExporter } from "../../../../lib/performance/local-span-exporter";
+import { AdminPerformanceListTracesParamsType } from "../validators";
+
+/**
+ * Lists the traces the local exporter keeps in memory, newest first
+ */
+export async function GET(
+  req: MedusaRequest<unknown, AdminPerformanceListTracesParamsType>,
+  res: MedusaResponse
+) {
+  const exporter = getLocalSpanExporter();
+
+  res.status(200).json({
+    enabled: !!exporter,
+    sink: exporter?.sink ?? null,
+    file: exporter?.file ?? null,
+    traces: exporter?.listTraces(req.validatedQuery.limit) ?? [],
+  });
+}
@@ -0,0 +1,184 @@
+import { z } from "zod";
+import { PRODUCT_FIELD_PRESET_NAMES } from "../../../lib/performance/field-presets";
+import { PRICE_UPDATE_WORKFLOWS } from "../../../lib/performance/price-updates";
+import { REPORT_FORMATS } from "../../../lib/performance/report";
+import { UPDATE_SCENARIOS } from "../../../lib/performance/update-scenarios";
+import { VARIANT_BATCH_SIZES } from "../../../lib/performance/variant-mutations";
+
+const booleanString = () =>
+  z
+    .union([z.boolean(), z.enum(["true", "false"])])
+    .transform((value) => value === true || value === "true");
+
+export type AdminPerformanceBenchmarkParamsType = z.infer<
+  typeof AdminPerformanceBenchmarkParams
+>;
+export const AdminPerformanceBenchmarkParams = z.object({
+  iterations: z.coerce.number().int().min(1).max(100).optional(),
+  warmup: z.coerce.number().int().min(0).max(20).optional(),
+  // Stored with the recorded run, defaults to the BENCHMARK_LABEL env var
+  label: z.string().max(100).optional(),
+  // false skips storing the run, e.g. under load tests
+  record: booleanString().default(true),
+});
+
+export type AdminPerformanceQueryCaptureParamsType = z.infer<
+  typeof AdminPerformanceQueryCaptureParams
+>;
+export const AdminPerformanceQueryCaptureParams = z.object({
+  capture_queries: booleanString().optional(),
+  repeat_threshold: z.coerce.number().int().min(1).default(5),
+});
+
+export type AdminPerformanceGetProductParamsType = z.infer<
+  typeof AdminPerformanceGetProductParams
+>;
+export const AdminPerformanceGetProductParams =
+  AdminPerformanceBenchmarkParams.merge(
+    AdminPerformanceQueryCaptureParams
+  ).extend({
+    fields: z.string().optional(),
+    preset: z.enum(PRODUCT_FIELD_PRESET_NAMES).default("default"),
+    compare_presets: booleanString().optional(),
+  });
+
+export type AdminPerformanceUpdateProductParamsType = z.infer<
+  typeof AdminPerformanceUpdateProductParams
+>;
+export const AdminPerformanceUpdateProductParams =
+  AdminPerformanceBenchmarkParams.merge(
+    AdminPerformanceQueryCaptureParams
+  ).extend({
+    scenario: z.enum(UPDATE_SCENARIOS).default("id-only"),
+    // Images the replace/append/delete image scenarios touch
+    image_batch_size: z.coerce.number().int().min(1).max(500).default(5),
+  });
+
+export type AdminPerformanceVariantMutationParamsType = z.infer<
+  typeof AdminPerformanceVariantMutationParams
+>;
+export const AdminPerformanceVariantMutationParams =
+  AdminPerformanceBenchmarkParams.extend({
+    batch_size: z.coerce
+      .number()
+      .refine(
+        (size) => (VARIANT_BATCH_SIZES as readonly number[]).includes(size),
+        `batch_size must be one of ${VARIANT_BATCH_SIZES.join(", ")}`
+      )
+      .default(10),
+  });
+
+export type AdminPerformancePriceUpdateParamsType = z.infer<
+  typeof AdminPerformancePriceUpdateParams
+>;
+export const AdminPerformancePriceUpdateParams =
+  AdminPerformanceBenchmarkParams.extend({
+    workflow: z.enum(PRICE_UPDATE_WORKFLOWS).default("upsert-variant-prices"),
+    currencies: z.coerce.number().int().min(1).optional(),
+    region_prices: booleanString().optional(),
+    rules_per_variant: z.coerce.number().int().min(0).max(50).optional(),
+  });
+
+export type AdminPerformanceListProductsParamsType = z.infer<
+  typeof AdminPerformanceListProductsParams
+>;
+export const AdminPerformanceListProductsParams = z.object({
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export type AdminPerformanceRunSelectionParamsType = z.infer<
+  typeof AdminPerformanceRunSelectionParams
+>;
+export const AdminPerformanceRunSelectionParams = z.object({
+  // Comma separated in query strings
+  run_ids: z
+    .union([z.string(), z.array(z.string())])
+    .transform((value) =>
+      typeof value === "string" ? value.split(",").filter(Boolean) : value
+    )
+    .optional(),
+  product_id: z.string().optional(),
+  operation: z.string().optional(),
+  scenario: z.string().optional(),
+  label: z.string().optional(),
+  medusa_version: z.string().optional(),
+  commit: z.string().optional(),
+  created_after: z.coerce.date().optional(),
+  created_before: z.coerce.date().optional(),
+});
+
+// Baselines and comparisons need an explicit run set, not the whole history
+const hasRunSet = (selection: AdminPerformanceRunSelectionParamsType) =>
+  !!(
+    selection.run_ids?.length ||
+    selection.label ||
+    selection.medusa_version ||
+    selection.commit ||
+    selection.created_after
+  );
+const RUN_SET_MESSAGE =
+  "Select the runs with run_ids, label, medusa_version, commit or created_after";
+
+export type AdminPerformanceListRunsParamsType = z.infer<
+  typeof AdminPerformanceListRunsParams
+>;
+export const AdminPerformanceListRunsParams =
+  AdminPerformanceRunSelectionParams.extend({
+    limit: z.coerce.number().int().min(1).max(500).default(50),
+    offset: z.coerce.number().int().min(0).default(0),
+    // A leading "-" sorts descending, e.g. "-median_ms"
+    order: z
+      .enum([
+        "created_at",
+        "-created_at",
+        "median_ms",
+        "-median_ms",
+        "p95_ms",
+        "-p95_ms",
+      ])
+      .default("-created_at"),
+  });
+
+export type AdminPerformanceCreateBaselineType = z.infer<
+  typeof AdminPerformanceCreateBaseline
+>;
+export const AdminPerformanceCreateBaseline =
+  AdminPerformanceRunSelectionParams.refine(hasRunSet, RUN_SET_MESSAGE);
+
+export type AdminPerformanceListBaselinesParamsType = z.infer<
+  typeof AdminPerformanceListBaselinesParams
+>;
+export const AdminPerformanceListBaselinesParams = z.object({
+  operation: z.string().optional(),
+  scenario: z.string().optional(),
+  shape_key: z.string().optional(),
+});
+
+export type AdminPerformanceCompareParamsType = z.infer<
+  typeof AdminPerformanceCompareParams
+>;
+export const AdminPerformanceCompareParams =
+  AdminPerformanceRunSelectionParams.extend({
+    // Relative median change tolerated before a significant difference counts, 0.1 = 10%
+    tolerance: z.coerce.number().min(0).max(10).default(0.1),
+    // Significance level of the Mann-Whitney U test
+    alpha: z.coerce.number().min(0.0001).max(0.5).default(0.05),
+  }).refine(hasRunSet, RUN_SET_MESSAGE);
+
+export type AdminPerformanceReportParamsType = z.infer<
+  typeof AdminPerformanceReportParams
+>;
+export const AdminPerformanceReportParams =
+  AdminPerformanceRunSelectionParams.extend({
+    format: z.enum(REPORT_FORMATS).default("json"),
+    // The newest runs matching the selection
+    limit: z.coerce.number().int().min(1).max(5000).default(500),
+  });
+
+export type AdminPerformanceListTracesParamsType = z.infer<
+  typeof AdminPerformanceListTracesParams
+>;
+export const AdminPerformanceListTracesParams = z.object({
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+});
@@ -0,0 +1,98 @@
+import {
+  defineMiddlewares,
+  validateAndTransformBody,
+  validateAndTransformQuery,
+} from "@medusajs/framework/http";
+import {
+  AdminPerformanceCompareParams,
+  AdminPerformanceCreateBaseline,
+  AdminPerformanceGetProductParams,
+  AdminPerformanceListBaselinesParams,
+  AdminPerformanceListProductsParams,
+  AdminPerformanceListRunsParams,
+  AdminPerformanceListTracesParams,
+  AdminPerformancePriceUpdateParams,
+  AdminPerformanceReportParams,
+  AdminPerformanceUpdateProductParams,
+  AdminPerformanceVariantMutationParams,
+} from "./admin/performance/validators";
+
+export default defineMiddlewares({
+  routes: [
+    {
+      matcher: "/admin/performance/products",
+      methods: ["GET"],
+      middlewares: [
+        validateAndTransformQuery(AdminPerformanceListProductsParams, {}),
+      ],
+    },
+    {
+      matcher: "/admin/performance/product/:id",
+      methods: ["GET"],
+      middlewares: [
+        validateAndTransformQuery(AdminPerformanceGetProductParams, {}),
+      ],
+    },
+    {
+      matcher: "/admin/performance/product/:id",
+      methods: ["POST"],
+      middlewares: [
+        validateAndTransformQuery(AdminPerformanceUpdateProductParams, {}),
+      ],
+    },
+    {
+      matcher: "/admin/performance/product/:id/variants",
+      methods: ["POST"],
+      middlewares: [
+        validateAndTransformQuery(AdminPerformanceVariantMutationParams, {}),
+      ],
+    },
+    {
+      matcher: "/admin/performance/product/:id/prices",
+      methods: ["POST"],
+      middlewares: [
+        validateAndTransformQuery(AdminPerformancePriceUpdateParams, {}),
+      ],
+    },
+    {
+      matcher: "/admin/performance/runs",
+      methods: ["GET"],
+      middlewares: [
+        validateAndTransformQuery(AdminPerformanceListRunsParams, {}),
+      ],
+    },
+    {
+      matcher: "/admin/performance/baselines",
+      methods: ["GET"],
+      middlewares: [
+        validateAndTransformQuery(AdminPerformanceListBaselinesParams, {}),
+      ],
+    },
+    {
+      matcher: "/admin/performance/baselines",
+      methods: ["POST"],
+      middlewares: [validateAndTransformBody(AdminPerformanceCreateBaseline)],
+    },
+    {
+      matcher: "/admin/performance/compare",
+      methods: ["GET"],
+      middlewares: [
+        validateAndTransformQuery(AdminPerformanceCompareParams, {}),
+      ],
+    },
+    {
+      matcher: "/admin/performance/report",
+      methods: ["GET"],
+      middlewares: [
+        validateAndTransformQuery(AdminPerformanceReportParams, {}),
+      ],
+    },
+    {
+      matcher: "/admin/performance/traces",
+      methods: ["GET"],
+      middlewares: [
+        validateAndTransformQuery(AdminPerformanceListTracesParams, {}),
+      ],
+    },
+  ],
+});
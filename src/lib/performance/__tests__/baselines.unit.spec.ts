@@ -0,0 +1,88 @@
+import { productShapeKey, workloadKey } from "../baselines";
+
+const shape = {
+  generator: "performance-product-generator",
+  generator_version: "1.0.0",
+  generator_template: "sheets",
+  generator_seed: 1,
+  generator_profile: "default",
+  requested_variants: 100,
+  image_count: 5,
+  image_width: 200,
+  price_currencies: 2,
+  region_prices: 0,
+  price_rules: 0,
+};
+
+describe("productShapeKey", () => {
+  it("keys generated products on their generator input", () => {
+    expect(
+      productShapeKey({
+        variant_count: 100,
+        image_count: 5,
+        product_shape: shape,
+      })
+    ).toBe("template:sheets|variants:100|images:5|width:200|prices:2+0+0");
+  });
+
+  it("ignores counts changed by the measured scenario", () => {
+    const before = productShapeKey({
+      variant_count: 100,
+      image_count: 5,
+      product_shape: shape,
+    });
+    const after = productShapeKey({
+      variant_count: 101,
+      image_count: 10,
+      product_shape: shape,
+    });
+
+    expect(after).toBe(before);
+  });
+
+  it("falls back to the stored counts for other products", () => {
+    expect(
+      productShapeKey({
+        variant_count: 3,
+        image_count: null,
+        product_shape: null,
+      })
+    ).toBe("variants:3|images:?");
+  });
+});
+
+describe("workloadKey", () => {
+  it("is empty for runs without parameters or query capture", () => {
+    expect(workloadKey({ metadata: null, query_count: null })).toBe("");
+  });
+
+  it("lists scalar parameters in order and flags query capture", () => {
+    expect(
+      workloadKey({
+        metadata: {
+          parameters: { rules_per_variant: 5, currencies: 2 },
+          price_count: 700,
+        },
+        query_count: 42,
+      })
+    ).toBe("currencies:2|rules_per_variant:5|capture_queries");
+  });
+
+  it("hashes list parameters, so different field lists get different keys", () => {
+    const key = (fields: string[]) =>
+      workloadKey({ metadata: { parameters: { fields } }, query_count: null });
+
+    expect(key(["id", "title"])).toMatch(/^fields:[0-9a-f]{8}$/);
+    expect(key(["id", "title"])).toBe(key(["id", "title"]));
+    expect(key(["id", "title"])).not.toBe(key(["id", "variants.id"]));
+  });
+
+  it("skips parameters that were not set", () => {
+    expect(
+      workloadKey({
+        metadata: { parameters: { currencies: undefined, region_prices: true } },
+        query_count: null,
+      })
+    ).toBe("region_prices:true");
+  });
+});
@@ -0,0 +1,61 @@
+import type { ReadableSpan } from "@opentelemetry/sdk-trace-node";
+import { LocalSpanExporter, SerializedSpan } from "../local-span-exporter";
+
+// Only the fields serializeSpan reads
+const span = (
+  traceId: string,
+  spanId: string,
+  parentSpanId: string | null,
+  startMs: number,
+  endMs: number
+) =>
+  ({
+    name: spanId,
+    kind: 0,
+    startTime: [Math.floor(startMs / 1000), (startMs % 1000) * 1e6],
+    endTime: [Math.floor(endMs / 1000), (endMs % 1000) * 1e6],
+    status: { code: 0 },
+    attributes: {},
+    instrumentationScope: { name: "test" },
+    spanContext: () => ({ traceId, spanId, traceFlags: 1 }),
+    parentSpanContext: parentSpanId
+      ? { traceId, spanId: parentSpanId, traceFlags: 1 }
+      : undefined,
+  }) as unknown as ReadableSpan;
+
+const exportSpans = (exporter: LocalSpanExporter, spans: ReadableSpan[]) =>
+  exporter.export(spans, () => {});
+
+describe("LocalSpanExporter", () => {
+  it("calls trace listeners with every span once the root span ended", () => {
+    const exporter = new LocalSpanExporter({ sink: "memory", bufferSize: 1 });
+    const listener = jest.fn<unknown, [SerializedSpan[]]>();
+    exporter.onTraceEnd("a", listener);
+
+    exportSpans(exporter, [span("a", "query", "root", 1000, 1010)]);
+    exportSpans(exporter, [span("b", "other", null, 1000, 1020)]);
+    expect(listener).not.toHaveBeenCalled();
+
+    exportSpans(exporter, [span("a", "root", null, 1000, 1030)]);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0].map((s) => s.span_id)).toEqual([
+      "query",
+      "root",
+    ]);
+  });
+
+  it("flags traces started before a dropped span ended as incomplete", async () => {
+    const exporter = new LocalSpanExporter({ sink: "memory", bufferSize: 2 });
+    exportSpans(exporter, [
+      span("a", "query", "root", 1000, 1010),
+      span("a", "root", null, 1000, 1030),
+      span("b", "root", null, 2000, 2010),
+    ]);
+
+    expect(await exporter.getTrace("a")).toEqual({
+      spans: [expect.objectContaining({ span_id: "root" })],
+      incomplete: true,
+    });
+    expect((await exporter.getTrace("b")).incomplete).toBe(false);
+  });
+});
@@ -0,0 +1,97 @@
+import { BenchmarkRunDTO } from "../benchmark-runs";
+import { buildBenchmarkReport, formatBenchmarkReport } from "../report";
+
+const environment = {
+  node_version: "v20.11.0",
+  platform: "linux",
+  arch: "x64",
+  cpus: 8,
+  cpu_model: "Test CPU",
+  memory_mb: 16384,
+  node_env: null,
+};
+
+const buildRun = (overrides: Partial<BenchmarkRunDTO>) =>
+  ({
+    id: "bench_1",
+    operation: "product.update",
+    scenario: "title-only",
+    variant_count: 100,
+    image_count: 5,
+    product_shape: { image_width: 200 },
+    iterations: 3,
+    summary: { count: 3, min: 80, median: 100, p95: 120, max: 120, mean: 100 },
+    median_ms: 100,
+    p95_ms: 120,
+    query_count: 42,
+    db_time_ms: 12.5,
+    label: "medusa-2.10.3",
+    medusa_version: "2.10.3",
+    commit: "abc123",
+    environment,
+    created_at: new Date("2025-01-01T00:00:00.000Z"),
+    ...overrides,
+  }) as unknown as BenchmarkRunDTO;
+
+describe("buildBenchmarkReport", () => {
+  it("orders the rows along the product matrix", () => {
+    const report = buildBenchmarkReport([
+      buildRun({ id: "bench_3", variant_count: null }),
+      buildRun({ id: "bench_2", image_count: 100 }),
+      buildRun({ id: "bench_1", variant_count: 10 }),
+      buildRun({
+        id: "bench_4",
+        image_count: 100,
+        product_shape: { image_width: 3840 },
+      }),
+    ]);
+
+    expect(report.rows.map((row) => row.run_id)).toEqual([
+      "bench_1",
+      "bench_2",
+      "bench_4",
+      "bench_3",
+    ]);
+    expect(report.matrix).toEqual({
+      variants: [10, 100],
+      images: [5, 100],
+      image_widths: [200, 3840],
+    });
+  });
+
+  it("lists every environment once", () => {
+    const report = buildBenchmarkReport([
+      buildRun({ id: "bench_1" }),
+      buildRun({ id: "bench_2" }),
+    ]);
+
+    expect(report.environments).toEqual([environment]);
+    expect(report.medusa_versions).toEqual(["2.10.3"]);
+  });
+});
+
+describe("formatBenchmarkReport", () => {
+  it("escapes CSV values", () => {
+    const report = buildBenchmarkReport([
+      buildRun({ label: 'before "fix", run 1' }),
+    ]);
+    const [header, row] = formatBenchmarkReport(report, "csv").split("\n");
+
+    expect(header.split(",")).toContain("median_ms");
+    expect(row).toContain('"before ""fix"", run 1"');
+  });
+
+  it("renders a Markdown table with the environment", () => {
+    const report = buildBenchmarkReport([
+      buildRun({ scenario: "a|b", query_count: null }),
+    ]);
+    const markdown = formatBenchmarkReport(report, "markdown");
+
+    expect(markdown).toContain(
+      "- Environment: Node v20.11.0, linux/x64, 8× Test CPU, 16384 MB RAM"
+    );
+    expect(markdown).toContain(
+      "| product.update | a\\|b | 100 | 5 | 200 | 3 | 100 | 120 | 120 | - | 12.5 | 2.10.3 |"
+    );
+  });
+});
@@ -0,0 +1,103 @@
+import {
+  mannWhitneyU,
+  percentile,
+  round,
+  summarizeDurations,
+} from "../stats";
+
+describe("round", () => {
+  it("rounds to two decimals by default", () => {
+    expect(round(0.33333)).toBe(0.33);
+    expect(round(12.345678)).toBe(12.35);
+  });
+
+  it("rounds to the given number of decimals", () => {
+    expect(round(0.123456, 4)).toBe(0.1235);
+    expect(round(7.6, 0)).toBe(8);
+  });
+});
+
+describe("percentile", () => {
+  it("returns the nearest-rank percentile", () => {
+    const sorted = [10, 20, 30, 40, 50, 60, 70, 80, 90, 100];
+
+    expect(percentile(sorted, 50)).toBe(50);
+    expect(percentile(sorted, 95)).toBe(100);
+    expect(percentile(sorted, 10)).toBe(10);
+  });
+
+  it("clamps the rank to the list", () => {
+    expect(percentile([5, 7], 0)).toBe(5);
+    expect(percentile([5, 7], 100)).toBe(7);
+  });
+
+  it("returns 0 for an empty list", () => {
+    expect(percentile([], 50)).toBe(0);
+  });
+});
+
+describe("summarizeDurations", () => {
+  it("summarizes unsorted durations", () => {
+    expect(summarizeDurations([120, 80, 100])).toEqual({
+      count: 3,
+      min: 80,
+      median: 100,
+      p95: 120,
+      max: 120,
+      mean: 100,
+    });
+  });
+
+  it("rounds to two decimals", () => {
+    expect(summarizeDurations([1.234, 2.345, 3.456]).mean).toBe(2.35);
+  });
+
+  it("returns zeros for no durations", () => {
+    expect(summarizeDurations([])).toEqual({
+      count: 0,
+      min: 0,
+      median: 0,
+      p95: 0,
+      max: 0,
+      mean: 0,
+    });
+  });
+});
+
+describe("mannWhitneyU", () => {
+  it("detects a shift between clearly separated samples", () => {
+    expect(
+      mannWhitneyU([100, 102, 98, 101, 99], [120, 125, 118, 122, 121])
+    ).toEqual({ u: 25, z: 2.51, p_value: 0.0122 });
+  });
+
+  it("reports a negative z when the second sample is faster", () => {
+    const result = mannWhitneyU(
+      [120, 125, 118, 122, 121],
+      [100, 102, 98, 101, 99]
+    );
+
+    expect(result.u).toBe(0);
+    expect(result.z).toBe(-2.51);
+    expect(result.p_value).toBe(0.0122);
+  });
+
+  it("averages the ranks of tied values", () => {
+    // Ranks of b: 2.5, 4.5 and 6, so U = 13 - 6 = 7
+    const result = mannWhitneyU([1, 2, 3], [2, 3, 4]);
+
+    expect(result.u).toBe(7);
+    expect(result.p_value).toBeGreaterThan(0.05);
+  });
+
+  it("does not find a difference between interleaved samples", () => {
+    const result = mannWhitneyU([1, 3, 5, 7, 9], [2, 4, 6, 8, 10]);
+
+    expect(result.p_value).toBeGreaterThan(0.5);
+  });
+
+  it("returns a p-value of 1 for empty or constant samples", () => {
+    expect(mannWhitneyU([], [1, 2])).toEqual({ u: 0, z: 0, p_value: 1 });
+    expect(mannWhitneyU([5, 5], [5, 5, 5]).p_value).toBe(1);
+  });
+});
@@ -0,0 +1,334 @@
+import { InferTypeOf, MedusaContainer } from "@medusajs/framework/types";
+import { createHash } from "crypto";
+import { MedusaError } from "@medusajs/framework/utils";
+import { BENCHMARK_MODULE } from "../../modules/benchmark";
+import BenchmarkBaseline from "../../modules/benchmark/models/benchmark-baseline";
+import BenchmarkModuleService from "../../modules/benchmark/service";
+import { GeneratedProductMetadata } from "../../scripts/utils/product-generator";
+import { BenchmarkRunDTO } from "./benchmark-runs";
+import { mannWhitneyU, MannWhitneyResult, summarizeDurations } from "./stats";
+
+export const BASELINE_VERDICTS = ["pass", "regressed", "improved"] as const;
+
+export type BaselineVerdict = (typeof BASELINE_VERDICTS)[number];
+
+export type BenchmarkBaselineDTO = InferTypeOf<typeof BenchmarkBaseline>;
+
+export interface CompareOptions {
+  // Relative median change tolerated before a significant difference counts
+  tolerance: number;
+  // Significance level of the Mann-Whitney U test
+  alpha: number;
+}
+
+export interface BaselineComparison {
+  operation: string;
+  scenario: string;
+  shape_key: string;
+  verdict: BaselineVerdict;
+  baseline: {
+    id: string;
+    label: string | null;
+    medusa_version: string | null;
+    run_count: number;
+    sample_count: number;
+    median_ms: number;
+    p95_ms: number;
+  };
+  candidate: {
+    run_ids: string[];
+    labels: string[];
+    medusa_versions: string[];
+    sample_count: number;
+    median_ms: number;
+    p95_ms: number;
+  };
+  // Relative to the baseline, 0.25 = 25% slower
+  median_change: number;
+  p95_change: number;
+  test: MannWhitneyResult & { significant: boolean };
+}
+
+type RunGroup = {
+  operation: string;
+  scenario: string;
+  shape_key: string;
+  runs: BenchmarkRunDTO[];
+};
+
+export type UnmatchedRunGroup = Omit<RunGroup, "runs"> & { run_ids: string[] };
+
+// json() properties are typed as plain records, run ids and durations are stored as arrays
+const asJson = (value: unknown) => value as Record<string, unknown>;
+const durationsOf = (record: { durations_ms: unknown }) =>
+  record.durations_ms as number[];
+
+const unique = (values: (string | null)[]) => [
+  ...new Set(values.filter((value): value is string => !!value)),
+];
+
+/**
+ * Describes the shape of the product a run measured, so a baseline of a product
+ * with 100 variants is never compared with a run on a product with 10.
+ *
+ * Generated products are keyed on their generator input, which scenarios like
+ * `add-one-variant` or `append-images` don't change. Other products fall back
+ * to the variant and image counts stored with the run.
+ *
+ * @example
+ * ```typescript
+ * productShapeKey(run); // "template:sheets|variants:100|images:10|width:800|prices:2+0+0"
+ * ```
+ */
+export function productShapeKey(
+  run: Pick<BenchmarkRunDTO, "variant_count" | "image_count" | "product_shape">
+): string {
+  const shape = run.product_shape as GeneratedProductMetadata | null;
+  if (!shape) {
+    return [
+      `variants:${run.variant_count ?? "?"}`,
+      `images:${run.image_count ?? "?"}`,
+    ].join("|");
+  }
+
+  return [
+    `template:${shape.generator_template}`,
+    `variants:${shape.requested_variants}`,
+    `images:${shape.image_count}`,
+    `width:${shape.image_width}`,
+    `prices:${shape.price_currencies}+${shape.region_prices}+${shape.price_rules}`,
+  ].join("|");
+}
+
+/**
+ * Describes the inputs a run was measured with besides its scenario, so runs of
+ * different workloads on the same product shape never share a baseline: the
+ * parameters stored in `metadata.parameters` (list values are hashed, e.g. the
+ * fields of a custom GET) and whether SQL capture added its overhead.
+ *
+ * @example
+ * ```typescript
+ * workloadKey(run); // "image_batch_size:5|capture_queries"
+ * ```
+ */
+export function workloadKey(
+  run: Pick<BenchmarkRunDTO, "metadata" | "query_count">
+): string {
+  const parameters = (asJson(run.metadata)?.parameters ?? {}) as Record<
+    string,
+    unknown
+  >;
+  const parts = Object.keys(parameters)
+    .filter((name) => parameters[name] !== undefined && parameters[name] !== null)
+    .sort()
+    .map((name) => {
+      const value = parameters[name];
+      return typeof value === "object"
+        ? `${name}:${createHash("sha1")
+            .update(JSON.stringify(value))
+            .digest("hex")
+            .slice(0, 8)}`
+        : `${name}:${value}`;
+    });
+  if (run.query_count !== null && run.query_count !== undefined) {
+    parts.push("capture_queries");
+  }
+
+  return parts.join("|");
+}
+
+/**
+ * Groups runs by operation, scenario, product shape and workload
+ */
+function groupRuns(runs: BenchmarkRunDTO[]): RunGroup[] {
+  const groups = new Map<string, RunGroup>();
+  for (const run of runs) {
+    const shape_key = [productShapeKey(run), workloadKey(run)]
+      .filter(Boolean)
+      .join("|");
+    const key = JSON.stringify([run.operation, run.scenario, shape_key]);
+    const group = groups.get(key) ?? {
+      operation: run.operation,
+      scenario: run.scenario,
+      shape_key,
+      runs: [],
+    };
+    group.runs.push(run);
+    groups.set(key, group);
+  }
+
+  return [...groups.values()];
+}
+
+/**
+ * Marks the given runs as the baseline of their operation, scenario, product
+ * shape and workload. Runs of different combinations get a baseline each, and the previous
+ * baseline of a combination is soft-deleted.
+ *
+ * @example
+ * ```typescript
+ * const runs = await benchmarkModuleService.listBenchmarkRuns({ label: "medusa-2.8.3" });
+ * const baselines = await markBaselines(container, runs);
+ * ```
+ */
+export async function markBaselines(
+  container: MedusaContainer,
+  runs: BenchmarkRunDTO[]
+): Promise<BenchmarkBaselineDTO[]> {
+  if (!runs.length) {
+    throw new MedusaError(
+      MedusaError.Types.NOT_FOUND,
+      "No benchmark runs match the selection"
+    );
+  }
+
+  const benchmarkModuleService: BenchmarkModuleService =
+    container.resolve(BENCHMARK_MODULE);
+
+  const baselines: BenchmarkBaselineDTO[] = [];
+  for (const group of groupRuns(runs)) {
+    const previous = await benchmarkModuleService.listBenchmarkBaselines(
+      {
+        operation: group.operation,
+        scenario: group.scenario,
+        shape_key: group.shape_key,
+      },
+      { select: ["id"] }
+    );
+    if (previous.length) {
+      await benchmarkModuleService.softDeleteBenchmarkBaselines(
+        previous.map((baseline) => baseline.id)
+      );
+    }
+
+    const durations = group.runs.flatMap(durationsOf);
+    const summary = summarizeDurations(durations);
+    const labels = unique(group.runs.map((run) => run.label));
+    const versions = unique(group.runs.map((run) => run.medusa_version));
+
+    baselines.push(
+      await benchmarkModuleService.createBenchmarkBaselines({
+        operation: group.operation,
+        scenario: group.scenario,
+        shape_key: group.shape_key,
+        run_ids: asJson(group.runs.map((run) => run.id)),
+        durations_ms: asJson(durations),
+        median_ms: summary.median,
+        p95_ms: summary.p95,
+        label: labels.join(", ") || null,
+        medusa_version: versions.join(", ") || null,
+        product_shape: group.runs[0].product_shape,
+      })
+    );
+  }
+
+  return baselines;
+}
+
+/**
+ * Compares the pooled durations of candidate runs with a baseline. A scenario
+ * regressed (or improved) when the Mann-Whitney U test finds the distributions
+ * differ at `alpha` and the median moved by more than `tolerance`, otherwise it
+ * passes.
+ */
+export function compareWithBaseline(
+  baseline: BenchmarkBaselineDTO,
+  runs: BenchmarkRunDTO[],
+  { tolerance, alpha }: CompareOptions
+): BaselineComparison {
+  const baselineDurations = durationsOf(baseline);
+  const candidateDurations = runs.flatMap(durationsOf);
+  const candidate = summarizeDurations(candidateDurations);
+
+  const change = (value: number, reference: number) =>
+    reference ? Math.round(((value - reference) / reference) * 1e4) / 1e4 : 0;
+  const medianChange = change(candidate.median, baseline.median_ms);
+
+  const test = mannWhitneyU(baselineDurations, candidateDurations);
+  const significant = test.p_value < alpha;
+
+  let verdict: BaselineVerdict = "pass";
+  if (significant && medianChange > tolerance) {
+    verdict = "regressed";
+  } else if (significant && medianChange < -tolerance) {
+    verdict = "improved";
+  }
+
+  return {
+    operation: baseline.operation,
+    scenario: baseline.scenario,
+    shape_key: baseline.shape_key,
+    verdict,
+    baseline: {
+      id: baseline.id,
+      label: baseline.label,
+      medusa_version: baseline.medusa_version,
+      run_count: (baseline.run_ids as unknown as string[]).length,
+      sample_count: baselineDurations.length,
+      median_ms: baseline.median_ms,
+      p95_ms: baseline.p95_ms,
+    },
+    candidate: {
+      run_ids: runs.map((run) => run.id),
+      labels: unique(runs.map((run) => run.label)),
+      medusa_versions: unique(runs.map((run) => run.medusa_version)),
+      sample_count: candidateDurations.length,
+      median_ms: candidate.median,
+      p95_ms: candidate.p95,
+    },
+    median_change: medianChange,
+    p95_change: change(candidate.p95, baseline.p95_ms),
+    test: { ...test, significant },
+  };
+}
+
+/**
+ * Groups the candidate runs by operation, scenario, product shape and workload and compares
+ * every group with its active baseline. Runs that are part of the baseline itself
+ * are left out, groups without a baseline are returned separately.
+ *
+ * @example
+ * ```typescript
+ * const runs = await benchmarkModuleService.listBenchmarkRuns({ label: "medusa-2.10.3" });
+ * const { comparisons } = await compareRunsWithBaselines(container, runs, {
+ *   tolerance: 0.1,
+ *   alpha: 0.05,
+ * });
+ * // [{ operation: "product.update", scenario: "title-only", verdict: "regressed", ... }]
+ * ```
+ */
+export async function compareRunsWithBaselines(
+  container: MedusaContainer,
+  runs: BenchmarkRunDTO[],
+  options: CompareOptions
+): Promise<{
+  comparisons: BaselineComparison[];
+  without_baseline: UnmatchedRunGroup[];
+}> {
+  const benchmarkModuleService: BenchmarkModuleService =
+    container.resolve(BENCHMARK_MODULE);
+
+  const comparisons: BaselineComparison[] = [];
+  const withoutBaseline: UnmatchedRunGroup[] = [];
+  for (const { runs: groupedRuns, ...group } of groupRuns(runs)) {
+    const [baseline] = await benchmarkModuleService.listBenchmarkBaselines(
+      group,
+      { take: 1, order: { created_at: "DESC" } }
+    );
+    if (!baseline) {
+      withoutBaseline.push({
+        ...group,
+        run_ids: groupedRuns.map((run) => run.id),
+      });
+      continue;
+    }
+
+    const baselineRunIds = new Set(baseline.run_ids as unknown as string[]);
+    const candidates = groupedRuns.filter((run) => !baselineRunIds.has(run.id));
+    if (candidates.length) {
+      comparisons.push(compareWithBaseline(baseline, candidates, options));
+    }
+  }
+
+  return { comparisons, without_baseline: withoutBaseline };
+}
@@ -0,0 +1,239 @@
+import { InferTypeOf, MedusaContainer } from "@medusajs/framework/types";
+import { ContainerRegistrationKeys } from "@medusajs/framework/utils";
+import { execSync } from "child_process";
+import os from "os";
+import { BENCHMARK_MODULE } from "../../modules/benchmark";
+import BenchmarkRun from "../../modules/benchmark/models/benchmark-run";
+import BenchmarkModuleService from "../../modules/benchmark/service";
+import { GeneratedProductMetadata } from "../../scripts/utils/product-generator";
+import {
+  getActiveTraceId,
+  getLocalSpanExporter,
+} from "./local-span-exporter";
+import { QueryCaptureReport } from "./query-capture";
+import { summarizeDurations } from "./stats";
+import { StepTiming } from "./step-timings";
+
+export type BenchmarkRunDTO = InferTypeOf<typeof BenchmarkRun>;
+
+export type BenchmarkEnvironment = {
+  node_version: string;
+  platform: string;
+  arch: string;
+  cpus: number;
+  cpu_model: string | null;
+  memory_mb: number;
+  node_env: string | null;
+};
+
+export interface RecordBenchmarkRunInput {
+  operation: string;
+  scenario: string;
+  product_id?: string;
+  product_shape?: GeneratedProductMetadata | null;
+  warmup?: number;
+  durations_ms: number[];
+  steps?: StepTiming[];
+  queries?: QueryCaptureReport;
+  // Falls back to the BENCHMARK_LABEL env var
+  label?: string;
+  // Inputs besides the scenario that change the workload, part of the baseline key
+  parameters?: Record<string, unknown>;
+  metadata?: Record<string, unknown>;
+}
+
+// Every column but `trace`: attached spans can be large and are only served by
+// GET /admin/performance/runs/[id]
+export const BENCHMARK_RUN_LIST_FIELDS = [
+  "id",
+  "operation",
+  "scenario",
+  "product_id",
+  "variant_count",
+  "image_count",
+  "product_shape",
+  "iterations",
+  "warmup",
+  "durations_ms",
+  "median_ms",
+  "p95_ms",
+  "summary",
+  "steps",
+  "query_count",
+  "db_time_ms",
+  "label",
+  "medusa_version",
+  "commit",
+  "environment",
+  "trace_id",
+  "metadata",
+  "created_at",
+  "updated_at",
+];
+
+let versionInfo: { medusa_version: string; commit: string | null } | undefined;
+
+/**
+ * Returns the installed Medusa version and the commit of the project. The commit
+ * comes from BENCHMARK_COMMIT (or GIT_COMMIT) and falls back to the git checkout.
+ */
+export function getVersionInfo() {
+  if (!versionInfo) {
+    let commit = process.env.BENCHMARK_COMMIT ?? process.env.GIT_COMMIT ?? null;
+    if (!commit) {
+      try {
+        commit = execSync("git rev-parse --short HEAD", {
+          stdio: ["ignore", "pipe", "ignore"],
+        })
+          .toString()
+          .trim();
+      } catch {
+        commit = null;
+      }
+    }
+
+    versionInfo = {
+      medusa_version: require("@medusajs/medusa/package.json").version,
+      commit,
+    };
+  }
+
+  return versionInfo;
+}
+
+/**
+ * Describes the machine the benchmark runs on, so runs from different hosts can be told apart
+ */
+export function getBenchmarkEnvironment(): BenchmarkEnvironment {
+  const cpus = os.cpus();
+
+  return {
+    node_version: process.version,
+    platform: os.platform(),
+    arch: os.arch(),
+    cpus: cpus.length,
+    cpu_model: cpus[0]?.model ?? null,
+    memory_mb: Math.round(os.totalmem() / 1024 / 1024),
+    node_env: process.env.NODE_ENV ?? null,
+  };
+}
+
+/**
+ * Stores the timings of a performance route call in the benchmark module, along
+ * with the product's current variant and image counts, the version label, the
+ * environment and, when local tracing is on, the id of the request's trace. The
+ * spans of that trace are attached to the run once the request ended.
+ * Recording happens after the measured section.
+ *
+ * @returns The id of the stored run
+ *
+ * @example
+ * ```typescript
+ * const runId = await recordBenchmarkRun(req.scope, {
+ *   operation: "product.update",
+ *   scenario: "title-only",
+ *   product_id: id,
+ *   durations_ms: benchmark.durations_ms,
+ * });
+ * ```
+ */
+export async function recordBenchmarkRun(
+  container: MedusaContainer,
+  input: RecordBenchmarkRunInput
+): Promise<string> {
+  const benchmarkModuleService: BenchmarkModuleService =
+    container.resolve(BENCHMARK_MODULE);
+
+  let counts: { variant_count: number; image_count: number } | undefined;
+  if (input.product_id) {
+    const {
+      data: [product],
+    } = await container.resolve(ContainerRegistrationKeys.QUERY).graph({
+      entity: "product",
+      fields: ["variants.id", "images.id"],
+      filters: { id: input.product_id },
+    });
+    counts = product && {
+      variant_count: product.variants?.length ?? 0,
+      image_count: product.images?.length ?? 0,
+    };
+  }
+
+  const summary = summarizeDurations(input.durations_ms);
+  // json() properties are typed as plain records, arrays and interfaces are stored as is
+  const asJson = (value: unknown) => value as Record<string, unknown>;
+  const run = await benchmarkModuleService.createBenchmarkRuns({
+    operation: input.operation,
+    scenario: input.scenario,
+    product_id: input.product_id ?? null,
+    variant_count: counts?.variant_count ?? null,
+    image_count: counts?.image_count ?? null,
+    product_shape: input.product_shape ?? null,
+    iterations: input.durations_ms.length,
+    warmup: input.warmup ?? 0,
+    durations_ms: asJson(input.durations_ms),
+    median_ms: summary.median,
+    p95_ms: summary.p95,
+    summary: asJson(summary),
+    steps: input.steps ? asJson(input.steps) : null,
+    query_count: input.queries?.statement_count ?? null,
+    db_time_ms: input.queries?.total_db_time_ms ?? null,
+    label: input.label ?? process.env.BENCHMARK_LABEL ?? null,
+    ...getVersionInfo(),
+    environment: getBenchmarkEnvironment(),
+    trace_id: getActiveTraceId(),
+    metadata:
+      input.metadata || input.parameters
+        ? { ...input.metadata, parameters: input.parameters }
+        : null,
+  });
+
+  // The request span ends after the response, its spans are attached from then on
+  const exporter = getLocalSpanExporter();
+  if (exporter && run.trace_id) {
+    const logger = container.resolve(ContainerRegistrationKeys.LOGGER);
+    exporter.onTraceEnd(run.trace_id, (spans) =>
+      benchmarkModuleService
+        .updateBenchmarkRuns({ id: run.id, trace: asJson(spans) })
+        .catch((error) =>
+          logger.warn(
+            `Could not attach trace ${run.trace_id} to benchmark run ${run.id}: ${error.message}`
+          )
+        )
+    );
+  }
+
+  return run.id;
+}
+
+export interface BenchmarkRunSelection {
+  run_ids?: string[];
+  product_id?: string;
+  operation?: string;
+  scenario?: string;
+  label?: string;
+  medusa_version?: string;
+  commit?: string;
+  created_after?: Date;
+  created_before?: Date;
+}
+
+/**
+ * Turns a run selection from the admin API into filters of the benchmark module
+ */
+export function buildRunFilters(selection: BenchmarkRunSelection) {
+  const { run_ids, created_after, created_before, ...fields } = selection;
+
+  const created_at = {
+    ...(created_after ? { $gte: created_after } : {}),
+    ...(created_before ? { $lte: created_before } : {}),
+  };
+
+  return {
+    ...Object.fromEntries(
+      Object.entries(fields).filter(([, value]) => value !== undefined)
+    ),
+    ...(run_ids?.length ? { id: run_ids } : {}),
+    ...(Object.keys(created_at).length ? { created_at } : {}),
+  };
+}
@@ -0,0 +1,87 @@
+import { performance } from "perf_hooks";
+import { DurationSummary, roundMs, summarizeDurations } from "./stats";
+
+export interface BenchmarkOptions<TInput> {
+  iterations: number;
+  warmup?: number;
+  // Runs before every call, outside of the measured duration
+  prepare?: () => Promise<TInput>;
+  // Runs after every call, outside of the measured duration, even when it failed
+  cleanup?: (input: TInput) => Promise<void>;
+}
+
+export interface BenchmarkReport {
+  iterations: number;
+  warmup: number;
+  durations_ms: number[];
+  summary: DurationSummary;
+}
+
+/**
+ * Measures how long a single async call takes
+ * @returns The call's result and its duration in milliseconds
+ */
+export async function timed<T>(
+  fn: () => Promise<T>
+): Promise<{ result: T; duration_ms: number }> {
+  const start = performance.now();
+  const result = await fn();
+
+  return { result, duration_ms: roundMs(performance.now() - start) };
+}
+
+/**
+ * Runs an async call repeatedly and collects the duration of every measured run.
+ * Warmup runs are executed first and left out of the durations. When `prepare`
+ * is given, its result is passed to every call without being measured, and
+ * `cleanup` receives it again once the call finished.
+ *
+ * @returns The result of the last measured run along with the benchmark report
+ *
+ * @example
+ * ```typescript
+ * const { result, benchmark } = await runBenchmark(
+ *   () => updateProductsWorkflow(req.scope).run({ input }),
+ *   { iterations: 10, warmup: 2 }
+ * );
+ * ```
+ */
+export async function runBenchmark<T, TInput = void>(
+  fn: (input: TInput) => Promise<T>,
+  options: BenchmarkOptions<TInput>
+): Promise<{ result: T; benchmark: BenchmarkReport }> {
+  const { iterations, warmup = 0, prepare, cleanup } = options;
+  const prepareInput = () =>
+    prepare ? prepare() : Promise.resolve(undefined as TInput);
+  const runOnce = async <R>(input: TInput, call: () => Promise<R>) => {
+    try {
+      return await call();
+    } finally {
+      await cleanup?.(input);
+    }
+  };
+
+  for (let i = 0; i < warmup; i++) {
+    const input = await prepareInput();
+    await runOnce(input, () => fn(input));
+  }
+
+  const durations: number[] = [];
+  let result!: T;
+  for (let i = 0; i < iterations; i++) {
+    const input = await prepareInput();
+    const run = await runOnce(input, () => timed(() => fn(input)));
+    durations.push(run.duration_ms);
+    result = run.result;
+  }
+
+  return {
+    result,
+    benchmark: {
+      iterations,
+      warmup,
+      durations_ms: durations,
+      summary: summarizeDurations(durations),
+    },
+  };
+}
@@ -0,0 +1,46 @@
+/**
+ * Named field sets for the performance GET query, so the cost of each relation
+ * expansion can be compared on the same product
+ */
+export const PRODUCT_FIELD_PRESETS = {
+  // The field set the performance route has always queried
+  default: ["id", "title", "variants.id", "images.*"],
+  minimal: ["id", "title"],
+  "variants-only": ["id", "title", "variants.*", "variants.options.*"],
+  "images-only": ["id", "title", "images.*"],
+  // Mirrors the relations the admin product details page loads
+  "admin-default": [
+    "*",
+    "variants.*",
+    "variants.options.*",
+    "options.*",
+    "options.values.*",
+    "images.*",
+    "tags.*",
+    "type.*",
+    "collection.*",
+    "categories.*",
+    "sales_channels.*",
+  ],
+  "full-with-prices": [
+    "*",
+    "variants.*",
+    "variants.options.*",
+    "variants.prices.*",
+    "variants.inventory_items.*",
+    "options.*",
+    "options.values.*",
+    "images.*",
+    "tags.*",
+    "type.*",
+    "collection.*",
+    "categories.*",
+    "sales_channels.*",
+  ],
+} satisfies Record<string, string[]>;
+
+export type ProductFieldPreset = keyof typeof PRODUCT_FIELD_PRESETS;
+
+export const PRODUCT_FIELD_PRESET_NAMES = Object.keys(
+  PRODUCT_FIELD_PRESETS
+) as [ProductFieldPreset, ...ProductFieldPreset[]];
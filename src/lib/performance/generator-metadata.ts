@@ -0,0 +1,55 @@
+import { MedusaContainer } from "@medusajs/framework/types";
+import { ContainerRegistrationKeys } from "@medusajs/framework/utils";
+import {
+  GeneratedProductMetadata,
+  PRODUCT_GENERATOR_NAME,
+} from "../../scripts/utils/product-generator";
+
+/**
+ * Picks the generator keys from a product's metadata
+ * @param metadata The product metadata
+ * @returns The generator metadata, or null when the product wasn't generated
+ */
+export function pickGeneratorMetadata(
+  metadata?: Record<string, unknown> | null
+): GeneratedProductMetadata | null {
+  if (metadata?.generator !== PRODUCT_GENERATOR_NAME) {
+    return null;
+  }
+
+  return {
+    generator: PRODUCT_GENERATOR_NAME,
+    generator_version: String(metadata.generator_version),
+    generator_template: String(metadata.generator_template),
+    generator_seed: (metadata.generator_seed ?? null) as number | string | null,
+    generator_profile: (metadata.generator_profile ?? null) as string | null,
+    requested_variants: Number(metadata.requested_variants),
+    image_count: Number(metadata.image_count),
+    image_width: Number(metadata.image_width),
+    price_currencies: Number(metadata.price_currencies ?? 0),
+    region_prices: Number(metadata.region_prices ?? 0),
+    price_rules: Number(metadata.price_rules ?? 0),
+  };
+}
+
+/**
+ * Loads the generator metadata of a product, outside of any timed section
+ * @param container The request scope
+ * @param productId The product to look up
+ * @returns The generator metadata, or null when the product wasn't generated
+ */
+export async function loadGeneratorMetadata(
+  container: MedusaContainer,
+  productId: string
+): Promise<GeneratedProductMetadata | null> {
+  const query = container.resolve(ContainerRegistrationKeys.QUERY);
+  const {
+    data: [product],
+  } = await query.graph({
+    entity: "product",
+    fields: ["metadata"],
+    filters: { id: productId },
+  });
+
+  return pickGeneratorMetadata(product?.metadata);
+}
@@ -0,0 +1,303 @@
+import { context, ROOT_CONTEXT, trace } from "@opentelemetry/api";
+import {
+  ExportResult,
+  ExportResultCode,
+  suppressTracing,
+} from "@opentelemetry/core";
+import type { ReadableSpan, SpanExporter } from "@opentelemetry/sdk-trace-node";
+import { createReadStream, existsSync, mkdirSync } from "fs";
+import { appendFile } from "fs/promises";
+import path from "path";
+import { createInterface } from "readline";
+import { roundMs } from "./stats";
+
+export const LOCAL_TRACING_SINKS = ["memory", "jsonl"] as const;
+
+export type LocalTracingSink = (typeof LOCAL_TRACING_SINKS)[number];
+
+export type SerializedSpan = {
+  trace_id: string;
+  span_id: string;
+  parent_span_id: string | null;
+  name: string;
+  // e.g. "@medusajs/http", "@medusajs/framework/workflows-sdk", "@medusajs/query", "@opentelemetry/instrumentation-pg"
+  scope: string;
+  kind: number;
+  start_ms: number;
+  end_ms: number;
+  duration_ms: number;
+  status: { code: number; message?: string };
+  attributes: Record<string, unknown>;
+};
+
+export type TraceSummary = {
+  trace_id: string;
+  name: string;
+  start_ms: number;
+  duration_ms: number;
+  span_count: number;
+};
+
+export type LocalTrace = {
+  spans: SerializedSpan[];
+  // Spans of the trace may have been dropped from the buffer, and there is no file to read them from
+  incomplete: boolean;
+};
+
+export type TraceListener = (spans: SerializedSpan[]) => unknown;
+
+export interface LocalSpanExporterOptions {
+  sink: LocalTracingSink;
+  // Spans kept in memory, the oldest are dropped first
+  bufferSize?: number;
+  // Only used by the jsonl sink
+  file?: string;
+}
+
+const DEFAULT_BUFFER_SIZE = 10000;
+
+// Traces whose root span hasn't ended yet, the oldest are given up first
+const MAX_OPEN_TRACES = 1000;
+
+const DEFAULT_TRACE_FILE = ".medusa/traces/spans.jsonl";
+
+// instrumentation.ts and the API routes can load this file through different
+// module instances, the exporter is shared through the global object instead
+const EXPORTER_KEY = Symbol.for("performance.local-span-exporter");
+
+const hrTimeToMs = ([seconds, nanoseconds]: [number, number]) =>
+  seconds * 1000 + nanoseconds / 1e6;
+
+// Request headers end up in the HTTP span attributes, credentials are left out
+const REDACTED_ATTRIBUTES = /^(authorization|cookie|x-medusa-access-token)$/i;
+
+function serializeSpan(span: ReadableSpan): SerializedSpan {
+  const start = hrTimeToMs(span.startTime);
+  const end = hrTimeToMs(span.endTime);
+
+  return {
+    trace_id: span.spanContext().traceId,
+    span_id: span.spanContext().spanId,
+    parent_span_id: span.parentSpanContext?.spanId ?? null,
+    name: span.name,
+    scope: span.instrumentationScope.name,
+    kind: span.kind,
+    start_ms: roundMs(start),
+    end_ms: roundMs(end),
+    duration_ms: roundMs(end - start),
+    status: { code: span.status.code, message: span.status.message },
+    attributes: Object.fromEntries(
+      Object.entries(span.attributes).filter(
+        ([key]) => !REDACTED_ATTRIBUTES.test(key)
+      )
+    ),
+  };
+}
+
+/**
+ * OpenTelemetry exporter that keeps finished spans in a bounded in-memory buffer
+ * the performance routes can read, and with the jsonl sink also appends them to
+ * a file, one span per line. No collector (Zipkin, Jaeger, ...) is needed.
+ *
+ * @example
+ * ```typescript
+ * registerOtel({
+ *   serviceName: "medusajs",
+ *   exporter: registerLocalSpanExporter({ sink: "jsonl" }),
+ *   instrument: { http: true, workflows: true, query: true, db: true },
+ * });
+ * ```
+ */
+export class LocalSpanExporter implements SpanExporter {
+  readonly sink: LocalTracingSink;
+  readonly file?: string;
+  private readonly bufferSize: number;
+  private spans: SerializedSpan[] = [];
+  // End time of the newest dropped span, traces started before may be partial
+  private droppedUntil = 0;
+  // Every span of the traces still running, kept apart from the bounded buffer
+  private openTraces = new Map<string, SerializedSpan[]>();
+  private traceListeners = new Map<string, TraceListener[]>();
+  // Appends are chained so lines of concurrent exports never interleave
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor({ sink, bufferSize, file }: LocalSpanExporterOptions) {
+    this.sink = sink;
+    this.bufferSize = bufferSize ?? DEFAULT_BUFFER_SIZE;
+
+    if (sink === "jsonl") {
+      this.file = path.resolve(file ?? DEFAULT_TRACE_FILE);
+      mkdirSync(path.dirname(this.file), { recursive: true });
+    }
+  }
+
+  export(
+    spans: ReadableSpan[],
+    resultCallback: (result: ExportResult) => void
+  ): void {
+    const serialized = spans.map(serializeSpan);
+
+    this.spans.push(...serialized);
+    if (this.spans.length > this.bufferSize) {
+      const dropped = this.spans.splice(0, this.spans.length - this.bufferSize);
+      this.droppedUntil = dropped.reduce(
+        (until, span) => Math.max(until, span.end_ms),
+        this.droppedUntil
+      );
+    }
+
+    spans.forEach((span, index) => {
+      const traceId = serialized[index].trace_id;
+      const open = this.openTraces.get(traceId) ?? [];
+      open.push(serialized[index]);
+      this.openTraces.set(traceId, open);
+
+      // Children end before their parent, so the trace is complete once its local root ended
+      if (!span.parentSpanContext || span.parentSpanContext.isRemote) {
+        this.closeTrace(traceId);
+      }
+    });
+    for (const traceId of this.openTraces.keys()) {
+      if (this.openTraces.size <= MAX_OPEN_TRACES) {
+        break;
+      }
+      this.closeTrace(traceId);
+    }
+
+    if (!this.file) {
+      resultCallback({ code: ExportResultCode.SUCCESS });
+      return;
+    }
+
+    const lines = serialized
+      .map((span) => `${JSON.stringify(span)}\n`)
+      .join("");
+    this.pendingWrite = this.pendingWrite
+      .then(() => appendFile(this.file!, lines))
+      .then(
+        () => resultCallback({ code: ExportResultCode.SUCCESS }),
+        (error) => resultCallback({ code: ExportResultCode.FAILED, error })
+      );
+  }
+
+  private closeTrace(traceId: string) {
+    const spans = this.openTraces.get(traceId) ?? [];
+    this.openTraces.delete(traceId);
+
+    // Listeners run outside the ended trace, and what they do isn't traced itself
+    context.with(suppressTracing(ROOT_CONTEXT), () =>
+      this.traceListeners.get(traceId)?.forEach((listener) => listener(spans))
+    );
+    this.traceListeners.delete(traceId);
+  }
+
+  /**
+   * Calls the listener with every span of a running trace once its root span
+   * ended, e.g. to store the spans of a request from within its handler
+   */
+  onTraceEnd(traceId: string, listener: TraceListener): void {
+    const listeners = this.traceListeners.get(traceId) ?? [];
+    listeners.push(listener);
+    this.traceListeners.set(traceId, listeners);
+  }
+
+  async forceFlush(): Promise<void> {
+    await this.pendingWrite;
+  }
+
+  async shutdown(): Promise<void> {
+    await this.forceFlush();
+  }
+
+  /**
+   * Returns the spans of a trace from the buffer, or from the file when the
+   * buffer may have dropped some of them
+   */
+  async getTrace(traceId: string): Promise<LocalTrace> {
+    const buffered = this.spans.filter((span) => span.trace_id === traceId);
+    const start = Math.min(...buffered.map((span) => span.start_ms));
+    const partial =
+      this.droppedUntil > 0 && (!buffered.length || start <= this.droppedUntil);
+    if (!partial || !this.file || !existsSync(this.file)) {
+      return { spans: buffered, incomplete: partial };
+    }
+
+    await this.forceFlush();
+
+    const spans: SerializedSpan[] = [];
+    const lines = createInterface({ input: createReadStream(this.file) });
+    for await (const line of lines) {
+      // Cheap check before parsing, most lines belong to other traces
+      if (line.includes(traceId)) {
+        const span: SerializedSpan = JSON.parse(line);
+        if (span.trace_id === traceId) {
+          spans.push(span);
+        }
+      }
+    }
+
+    return { spans, incomplete: false };
+  }
+
+  /**
+   * Lists the traces in the buffer, newest first
+   */
+  listTraces(limit = 50): TraceSummary[] {
+    const traces = new Map<string, SerializedSpan[]>();
+    for (const span of this.spans) {
+      const spans = traces.get(span.trace_id) ?? [];
+      spans.push(span);
+      traces.set(span.trace_id, spans);
+    }
+
+    return [...traces.entries()]
+      .map(([trace_id, spans]) => {
+        // The root span has no parent, or its parent was never exported
+        const ids = new Set(spans.map((span) => span.span_id));
+        const root =
+          spans.find(
+            (span) => !span.parent_span_id || !ids.has(span.parent_span_id)
+          ) ?? spans[0];
+        const start = Math.min(...spans.map((span) => span.start_ms));
+        const end = Math.max(...spans.map((span) => span.end_ms));
+
+        return {
+          trace_id,
+          name: root.name,
+          start_ms: start,
+          duration_ms: roundMs(end - start),
+          span_count: spans.length,
+        };
+      })
+      .sort((a, b) => b.start_ms - a.start_ms)
+      .slice(0, limit);
+  }
+}
+
+/**
+ * Creates the local exporter and makes it available to `getLocalSpanExporter`
+ */
+export function registerLocalSpanExporter(
+  options: LocalSpanExporterOptions
+): LocalSpanExporter {
+  const exporter = new LocalSpanExporter(options);
+  (globalThis as Record<symbol, unknown>)[EXPORTER_KEY] = exporter;
+
+  return exporter;
+}
+
+/**
+ * Returns the local exporter registered by instrumentation.ts, or undefined when
+ * local tracing is switched off
+ */
+export function getLocalSpanExporter(): LocalSpanExporter | undefined {
+  return (globalThis as Record<symbol, unknown>)[EXPORTER_KEY] as
+    LocalSpanExporter | undefined;
+}
+
+/**
+ * Returns the id of the trace the current code runs in, when tracing is on
+ */
+export function getActiveTraceId(): string | null {
+  return trace.getActiveSpan()?.spanContext().traceId ?? null;
+}
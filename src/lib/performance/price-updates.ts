@@ -0,0 +1,278 @@
+import { CreatePricesDTO, MedusaContainer } from "@medusajs/framework/types";
+import {
+  ContainerRegistrationKeys,
+  MedusaError,
+  Modules,
+} from "@medusajs/framework/utils";
+import {
+  updateProductsWorkflow,
+  updateProductVariantsWorkflow,
+  upsertVariantPricesWorkflow,
+} from "@medusajs/medusa/core-flows";
+import { buildVariantPrices } from "../../scripts/utils/variant-prices";
+import { StepTimingCapture } from "./step-timings";
+
+/**
+ * Workflows that can save variant prices, from only the pricing sync to a full product save
+ */
+export const PRICE_UPDATE_WORKFLOWS = [
+  "upsert-variant-prices",
+  "update-product-variants",
+  "update-products",
+] as const;
+
+export type PriceUpdateWorkflow = (typeof PRICE_UPDATE_WORKFLOWS)[number];
+
+export interface PriceShapeInput {
+  // Number of store currencies with a plain price
+  currencies?: number;
+  // Add a region-specific price for every region
+  region_prices?: boolean;
+  // Number of rule-based (customer group) prices
+  rules_per_variant?: number;
+}
+
+export interface VariantPriceUpdates {
+  product_id: string;
+  variants: { variant_id: string; prices: CreatePricesDTO[] }[];
+  price_count: number;
+  // The price sets before a reshape, put back by `restoreVariantPrices`
+  original?: { variant_id: string; prices: CreatePricesDTO[] }[];
+}
+
+/**
+ * Identifies a price by its currency and rules, so a reshaped price set keeps the
+ * ids of the prices it still has
+ */
+function priceKey(
+  currencyCode: string,
+  rules: Record<string, string> = {}
+): string {
+  const sortedRules = Object.keys(rules)
+    .sort()
+    .map((attribute) => `${attribute}=${rules[attribute]}`);
+  return [currencyCode, ...sortedRules].join("|");
+}
+
+/**
+ * Moves an amount by one, in alternating directions, so every run saves a changed price
+ */
+function nudge(amount: number): number {
+  return amount % 2 ? amount - 1 : amount + 1;
+}
+
+/**
+ * Builds new prices for every variant of a product. Without a shape every existing
+ * price gets a changed amount; with a shape, the price sets are reshaped to the
+ * requested number of currencies, region prices and price rules, and the current
+ * prices are kept so `restoreVariantPrices` can put them back after the run.
+ *
+ * @example
+ * ```typescript
+ * const updates = await buildVariantPriceUpdates(req.scope, productId, {
+ *   currencies: 3,
+ *   region_prices: true,
+ *   rules_per_variant: 5,
+ * });
+ * ```
+ */
+export async function buildVariantPriceUpdates(
+  container: MedusaContainer,
+  productId: string,
+  shape: PriceShapeInput = {}
+): Promise<VariantPriceUpdates> {
+  const query = container.resolve(ContainerRegistrationKeys.QUERY);
+  const {
+    data: [product],
+  } = await query.graph({
+    entity: "product",
+    fields: [
+      "id",
+      "variants.id",
+      "variants.prices.id",
+      "variants.prices.amount",
+      "variants.prices.currency_code",
+      "variants.prices.price_rules.attribute",
+      "variants.prices.price_rules.value",
+    ],
+    filters: { id: productId },
+  });
+
+  if (!product) {
+    throw new MedusaError(
+      MedusaError.Types.NOT_FOUND,
+      `Product with id: ${productId} was not found`
+    );
+  }
+
+  const reshape =
+    shape.currencies !== undefined ||
+    shape.region_prices !== undefined ||
+    shape.rules_per_variant !== undefined;
+
+  let currencies: string[] = [];
+  let regions: { id: string; currency_code: string }[] = [];
+  if (reshape) {
+    const [store] = await container
+      .resolve(Modules.STORE)
+      .listStores({}, { relations: ["supported_currencies"] });
+    // The default currency comes first, like in the seed profiles
+    const storeCurrencies = [...(store?.supported_currencies ?? [])]
+      .sort((a, b) => Number(b.is_default) - Number(a.is_default))
+      .map((currency) => currency.currency_code);
+
+    const count = shape.currencies ?? storeCurrencies.length;
+    if (count > storeCurrencies.length) {
+      throw new MedusaError(
+        MedusaError.Types.INVALID_DATA,
+        `The store only supports ${storeCurrencies.length} currencies, ${count} were requested`
+      );
+    }
+    currencies = storeCurrencies.slice(0, count);
+
+    if (shape.region_prices) {
+      regions = (await container.resolve(Modules.REGION).listRegions()).map(
+        (region) => ({ id: region.id, currency_code: region.currency_code })
+      );
+    }
+  }
+
+  const variants = product.variants.map((variant) => {
+    const existing = new Map<string, CreatePricesDTO & { id: string }>();
+    for (const price of variant!.prices ?? []) {
+      const rules = Object.fromEntries(
+        (price!.price_rules ?? []).map((rule) => [rule!.attribute, rule!.value])
+      ) as Record<string, string>;
+      existing.set(priceKey(price!.currency_code as string, rules), {
+        id: price!.id as string,
+        currency_code: price!.currency_code as string,
+        amount: Number(price!.amount),
+        rules,
+      });
+    }
+    const fallbackAmount = Number(variant!.prices?.[0]?.amount ?? 100);
+
+    const prices: CreatePricesDTO[] = reshape
+      ? buildVariantPrices(
+          {
+            currencies,
+            regions,
+            rulesPerVariant: shape.rules_per_variant,
+          },
+          () => fallbackAmount
+        ).map((price) => {
+          const match = existing.get(
+            priceKey(price.currency_code, price.rules)
+          );
+          return match
+            ? { ...price, id: match.id, amount: nudge(Number(match.amount)) }
+            : price;
+        })
+      : [...existing.values()].map((price) => ({
+          ...price,
+          amount: nudge(Number(price.amount)),
+        }));
+
+    return {
+      variant_id: variant!.id,
+      prices,
+      original: [...existing.values()],
+    };
+  });
+
+  return {
+    product_id: product.id,
+    variants: variants.map(({ variant_id, prices }) => ({ variant_id, prices })),
+    price_count: variants.reduce(
+      (sum, variant) => sum + variant.prices.length,
+      0
+    ),
+    original: reshape
+      ? variants.map(({ variant_id, original }) => ({
+          variant_id,
+          prices: original,
+        }))
+      : undefined,
+  };
+}
+
+/**
+ * Puts back the price sets a reshape replaced, so later runs on the product measure
+ * the prices it was generated with. Prices the reshape removed are created again.
+ */
+export async function restoreVariantPrices(
+  container: MedusaContainer,
+  updates: VariantPriceUpdates
+): Promise<void> {
+  if (!updates.original) {
+    return;
+  }
+
+  const kept = new Set(
+    updates.variants.flatMap((variant) =>
+      variant.prices.map((price) => price.id)
+    )
+  );
+  await upsertVariantPricesWorkflow(container).run({
+    input: {
+      variantPrices: updates.original.map((variant) => ({
+        variant_id: variant.variant_id,
+        product_id: updates.product_id,
+        prices: variant.prices.map(({ id, ...price }) =>
+          id && kept.has(id) ? { ...price, id } : price
+        ),
+      })),
+      previousVariantIds: [],
+    },
+  });
+}
+
+/**
+ * Saves the prices through the chosen workflow: only the pricing sync, the variant
+ * update or a full product update
+ */
+export function runPriceUpdate(
+  container: MedusaContainer,
+  workflow: PriceUpdateWorkflow,
+  updates: VariantPriceUpdates,
+  events?: StepTimingCapture["events"]
+): Promise<unknown> {
+  switch (workflow) {
+    case "upsert-variant-prices":
+      return upsertVariantPricesWorkflow(container).run({
+        input: {
+          variantPrices: updates.variants.map((variant) => ({
+            ...variant,
+            product_id: updates.product_id,
+          })),
+          previousVariantIds: [],
+        },
+        events,
+      });
+    case "update-product-variants":
+      return updateProductVariantsWorkflow(container).run({
+        input: {
+          product_variants: updates.variants.map((variant) => ({
+            id: variant.variant_id,
+            prices: variant.prices,
+          })),
+        },
+        events,
+      });
+    case "update-products":
+      return updateProductsWorkflow(container).run({
+        input: {
+          products: [
+            {
+              id: updates.product_id,
+              variants: updates.variants.map((variant) => ({
+                id: variant.variant_id,
+                prices: variant.prices,
+              })),
+            },
+          ],
+        },
+        events,
+      });
+  }
+}
@@ -0,0 +1,170 @@
+import type { Knex } from "@mikro-orm/knex";
+import { AsyncLocalStorage } from "async_hooks";
+import { performance } from "perf_hooks";
+import { roundMs } from "./stats";
+
+export interface CapturedQuery {
+  sql: string;
+  duration_ms: number;
+  failed: boolean;
+}
+
+export interface RepeatedQueryGroup {
+  statement: string;
+  count: number;
+  total_ms: number;
+  likely_n_plus_one: boolean;
+}
+
+export interface QueryCaptureReport {
+  statement_count: number;
+  total_db_time_ms: number;
+  repeat_threshold: number;
+  repeated: RepeatedQueryGroup[];
+}
+
+interface QueryCaptureStore {
+  pending: Map<string, { sql: string; start: number }>;
+  queries: CapturedQuery[];
+}
+
+type KnexQueryData = { __knexQueryUid?: string; sql?: string };
+
+const storage = new AsyncLocalStorage<QueryCaptureStore>();
+const instrumented = new WeakSet<Knex>();
+
+/**
+ * Subscribes once to the query events of the shared knex connection.
+ * Only queries issued inside an active capture (see `captureQueries`) are recorded,
+ * so concurrent requests don't end up in each other's reports.
+ */
+function instrument(connection: Knex) {
+  if (instrumented.has(connection)) {
+    return;
+  }
+  instrumented.add(connection);
+
+  const complete = (data: KnexQueryData, failed: boolean) => {
+    const store = storage.getStore();
+    const pending = data.__knexQueryUid
+      ? store?.pending.get(data.__knexQueryUid)
+      : undefined;
+    if (!store || !pending) {
+      return;
+    }
+
+    store.pending.delete(data.__knexQueryUid!);
+    store.queries.push({
+      sql: pending.sql,
+      duration_ms: roundMs(performance.now() - pending.start),
+      failed,
+    });
+  };
+
+  connection.on("query", (data: KnexQueryData) => {
+    const store = storage.getStore();
+    if (!store || !data.__knexQueryUid) {
+      return;
+    }
+
+    store.pending.set(data.__knexQueryUid, {
+      sql: data.sql ?? "",
+      start: performance.now(),
+    });
+  });
+  connection.on("query-response", (_response: unknown, data: KnexQueryData) =>
+    complete(data, false)
+  );
+  connection.on("query-error", (_error: unknown, data: KnexQueryData) =>
+    complete(data, true)
+  );
+}
+
+/**
+ * Normalizes a SQL statement so queries that only differ by their parameters
+ * end up in the same group
+ *
+ * @example
+ * ```typescript
+ * normalizeStatement(`select * from "image" where "id" in ($1, $2) limit 10`)
+ * // `select * from "image" where "id" in (?) limit ?`
+ * ```
+ */
+export function normalizeStatement(sql: string): string {
+  return sql
+    .replace(/'(?:[^']|'')*'/g, "?")
+    .replace(/\$\d+/g, "?")
+    .replace(/\b\d+(?:\.\d+)?\b/g, "?")
+    .replace(/\(\s*\?(?:\s*,\s*\?)*\s*\)/g, "(?)")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Builds the report for a list of captured queries. Statements that run more than
+ * `repeatThreshold` times are flagged as likely N+1 patterns.
+ */
+export function buildQueryCaptureReport(
+  queries: CapturedQuery[],
+  repeatThreshold: number
+): QueryCaptureReport {
+  const groups = new Map<string, RepeatedQueryGroup>();
+
+  for (const query of queries) {
+    const statement = normalizeStatement(query.sql);
+    const group = groups.get(statement) ?? {
+      statement,
+      count: 0,
+      total_ms: 0,
+      likely_n_plus_one: false,
+    };
+
+    group.count++;
+    group.total_ms = roundMs(group.total_ms + query.duration_ms);
+    group.likely_n_plus_one = group.count > repeatThreshold;
+    groups.set(statement, group);
+  }
+
+  return {
+    statement_count: queries.length,
+    total_db_time_ms: roundMs(
+      queries.reduce((sum, query) => sum + query.duration_ms, 0)
+    ),
+    repeat_threshold: repeatThreshold,
+    repeated: [...groups.values()]
+      .filter((group) => group.likely_n_plus_one)
+      .sort((a, b) => b.count - a.count),
+  };
+}
+
+/**
+ * Records every SQL statement the shared knex connection runs while `fn` executes
+ *
+ * @param connection The shared pg connection (`ContainerRegistrationKeys.PG_CONNECTION`)
+ * @param fn The work to capture queries for
+ * @param repeatThreshold Statements repeating more than this many times are flagged
+ *
+ * @example
+ * ```typescript
+ * const { result, queries } = await captureQueries(
+ *   req.scope.resolve(ContainerRegistrationKeys.PG_CONNECTION),
+ *   () => query.graph({ entity: "product", fields, filters }),
+ *   5
+ * );
+ * ```
+ */
+export async function captureQueries<T>(
+  connection: Knex,
+  fn: () => Promise<T>,
+  repeatThreshold: number
+): Promise<{ result: T; queries: QueryCaptureReport }> {
+  instrument(connection);
+
+  const store: QueryCaptureStore = { pending: new Map(), queries: [] };
+  const result = await storage.run(store, fn);
+
+  return {
+    result,
+    queries: buildQueryCaptureReport(store.queries, repeatThreshold),
+  };
+}
@@ -0,0 +1,238 @@
+import { GeneratedProductMetadata } from "../../scripts/utils/product-generator";
+import { BenchmarkEnvironment, BenchmarkRunDTO } from "./benchmark-runs";
+import { DurationSummary } from "./stats";
+
+export const REPORT_FORMATS = ["json", "csv", "markdown"] as const;
+
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+export const REPORT_CONTENT_TYPES: Record<ReportFormat, string> = {
+  json: "application/json",
+  csv: "text/csv",
+  markdown: "text/markdown",
+};
+
+export const REPORT_FILE_EXTENSIONS: Record<ReportFormat, string> = {
+  json: "json",
+  csv: "csv",
+  markdown: "md",
+};
+
+export type BenchmarkReportRow = {
+  run_id: string;
+  operation: string;
+  scenario: string;
+  variants: number | null;
+  images: number | null;
+  image_width: number | null;
+  iterations: number;
+  min_ms: number;
+  median_ms: number;
+  p95_ms: number;
+  max_ms: number;
+  mean_ms: number;
+  query_count: number | null;
+  db_time_ms: number | null;
+  label: string | null;
+  medusa_version: string;
+  commit: string | null;
+  created_at: string;
+};
+
+export type BenchmarkReport = {
+  generated_at: string;
+  run_count: number;
+  // Distinct values of the seed product matrix the runs cover
+  matrix: {
+    variants: number[];
+    images: number[];
+    image_widths: number[];
+  };
+  medusa_versions: string[];
+  commits: string[];
+  environments: BenchmarkEnvironment[];
+  rows: BenchmarkReportRow[];
+};
+
+// Column order of the CSV export
+const CSV_COLUMNS: (keyof BenchmarkReportRow)[] = [
+  "run_id",
+  "operation",
+  "scenario",
+  "variants",
+  "images",
+  "image_width",
+  "iterations",
+  "min_ms",
+  "median_ms",
+  "p95_ms",
+  "max_ms",
+  "mean_ms",
+  "query_count",
+  "db_time_ms",
+  "label",
+  "medusa_version",
+  "commit",
+  "created_at",
+];
+
+const distinct = <T>(values: (T | null)[]) =>
+  [...new Set(values.filter((value): value is T => value !== null))].sort(
+    (a, b) => (a < b ? -1 : a > b ? 1 : 0)
+  );
+
+// Sorts nulls last so runs without a product shape end up at the bottom
+const compareNullable = (a: number | null, b: number | null) =>
+  (a ?? Number.POSITIVE_INFINITY) - (b ?? Number.POSITIVE_INFINITY) || 0;
+
+/**
+ * Builds a report of benchmark runs, ordered along the seed product matrix
+ * (variants × image count × image width) and then by operation and scenario
+ *
+ * @example
+ * ```typescript
+ * const runs = await benchmarkModuleService.listBenchmarkRuns({ label: "medusa-2.10.3" });
+ * const report = buildBenchmarkReport(runs);
+ * formatBenchmarkReport(report, "markdown");
+ * ```
+ */
+export function buildBenchmarkReport(runs: BenchmarkRunDTO[]): BenchmarkReport {
+  const rows = runs
+    .map((run): BenchmarkReportRow => {
+      const summary = run.summary as unknown as DurationSummary;
+      const shape = run.product_shape as GeneratedProductMetadata | null;
+
+      return {
+        run_id: run.id,
+        operation: run.operation,
+        scenario: run.scenario,
+        variants: run.variant_count,
+        images: run.image_count,
+        image_width: shape?.image_width ?? null,
+        iterations: run.iterations,
+        min_ms: summary.min,
+        median_ms: run.median_ms,
+        p95_ms: run.p95_ms,
+        max_ms: summary.max,
+        mean_ms: summary.mean,
+        query_count: run.query_count,
+        db_time_ms: run.db_time_ms,
+        label: run.label,
+        medusa_version: run.medusa_version,
+        commit: run.commit,
+        created_at: new Date(run.created_at).toISOString(),
+      };
+    })
+    .sort(
+      (a, b) =>
+        compareNullable(a.variants, b.variants) ||
+        compareNullable(a.images, b.images) ||
+        compareNullable(a.image_width, b.image_width) ||
+        a.operation.localeCompare(b.operation) ||
+        a.scenario.localeCompare(b.scenario) ||
+        a.created_at.localeCompare(b.created_at)
+    );
+
+  // Runs from the same machine share one entry
+  const environments = new Map<string, BenchmarkEnvironment>();
+  for (const run of runs) {
+    environments.set(
+      JSON.stringify(run.environment),
+      run.environment as unknown as BenchmarkEnvironment
+    );
+  }
+
+  return {
+    generated_at: new Date().toISOString(),
+    run_count: rows.length,
+    matrix: {
+      variants: distinct(rows.map((row) => row.variants)),
+      images: distinct(rows.map((row) => row.images)),
+      image_widths: distinct(rows.map((row) => row.image_width)),
+    },
+    medusa_versions: distinct(rows.map((row) => row.medusa_version)),
+    commits: distinct(rows.map((row) => row.commit)),
+    environments: [...environments.values()],
+    rows,
+  };
+}
+
+function toCsv(report: BenchmarkReport): string {
+  const escape = (value: unknown) => {
+    const text = value === null || value === undefined ? "" : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  return [
+    CSV_COLUMNS.join(","),
+    ...report.rows.map((row) =>
+      CSV_COLUMNS.map((column) => escape(row[column])).join(",")
+    ),
+  ].join("\n");
+}
+
+function toMarkdown(report: BenchmarkReport): string {
+  const cell = (value: unknown) =>
+    value === null || value === undefined
+      ? "-"
+      : String(value).replace(/\|/g, "\\|");
+  const list = (values: unknown[]) =>
+    values.length ? values.map(cell).join(", ") : "-";
+
+  const lines = [
+    "### Benchmark results",
+    "",
+    `- Medusa: ${list(report.medusa_versions)}`,
+    `- Commit: ${list(report.commits)}`,
+    ...report.environments.map(
+      (environment) =>
+        `- Environment: Node ${environment.node_version}, ${environment.platform}/${environment.arch}, ${environment.cpus}× ${environment.cpu_model ?? "unknown CPU"}, ${environment.memory_mb} MB RAM${environment.node_env ? `, NODE_ENV=${environment.node_env}` : ""}`
+    ),
+    `- Product matrix: ${list(report.matrix.variants)} variants × ${list(
+      report.matrix.images
+    )} images × ${list(report.matrix.image_widths)} px`,
+    `- Runs: ${report.run_count}, generated ${report.generated_at}`,
+    "",
+    "| Operation | Scenario | Variants | Images | Width | Iterations | Median (ms) | p95 (ms) | Max (ms) | Queries | DB time (ms) | Medusa |",
+    "| --- | --- | ---: | ---: | ---: | ---: | ---: | ---: | ---: | ---: | ---: | --- |",
+    ...report.rows.map(
+      (row) =>
+        `| ${[
+          row.operation,
+          row.scenario,
+          row.variants,
+          row.images,
+          row.image_width,
+          row.iterations,
+          row.median_ms,
+          row.p95_ms,
+          row.max_ms,
+          row.query_count,
+          row.db_time_ms,
+          row.medusa_version,
+        ]
+          .map(cell)
+          .join(" | ")} |`
+    ),
+  ];
+
+  return lines.join("\n");
+}
+
+/**
+ * Renders a report as JSON for machines, CSV for spreadsheets or a Markdown
+ * table with the environment details, ready to paste into a GitHub issue
+ */
+export function formatBenchmarkReport(
+  report: BenchmarkReport,
+  format: ReportFormat
+): string {
+  switch (format) {
+    case "csv":
+      return toCsv(report);
+    case "markdown":
+      return toMarkdown(report);
+    default:
+      return JSON.stringify(report, null, 2);
+  }
+}
@@ -0,0 +1,141 @@
+export interface DurationSummary {
+  count: number;
+  min: number;
+  median: number;
+  p95: number;
+  max: number;
+  mean: number;
+}
+
+/**
+ * Rounds a value to a fixed number of decimals so responses stay readable
+ */
+export function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Rounds a millisecond value to two decimals so responses stay readable
+ */
+export function roundMs(value: number): number {
+  return round(value, 2);
+}
+
+/**
+ * Returns the nearest-rank percentile of an already sorted list of values
+ * @param sorted Values sorted in ascending order
+ * @param p Percentile between 0 and 100
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (!sorted.length) {
+    return 0;
+  }
+
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1];
+}
+
+/**
+ * Summarizes a list of durations (in milliseconds) into min/median/p95/max/mean
+ *
+ * @example
+ * ```typescript
+ * summarizeDurations([120, 80, 100])
+ * // { count: 3, min: 80, median: 100, p95: 120, max: 120, mean: 100 }
+ * ```
+ */
+export function summarizeDurations(durations: number[]): DurationSummary {
+  const sorted = [...durations].sort((a, b) => a - b);
+  const total = sorted.reduce((sum, value) => sum + value, 0);
+
+  return {
+    count: sorted.length,
+    min: roundMs(sorted[0] ?? 0),
+    median: roundMs(percentile(sorted, 50)),
+    p95: roundMs(percentile(sorted, 95)),
+    max: roundMs(sorted[sorted.length - 1] ?? 0),
+    mean: roundMs(sorted.length ? total / sorted.length : 0),
+  };
+}
+
+export interface MannWhitneyResult {
+  // U statistic of the second sample
+  u: number;
+  z: number;
+  // Two-sided, from the normal approximation with tie and continuity correction
+  p_value: number;
+}
+
+/**
+ * Standard normal cumulative distribution (Abramowitz & Stegun 7.1.26)
+ */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf =
+    1 -
+    ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) *
+      t +
+      0.254829592) *
+      t *
+      Math.exp(-x * x);
+
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Mann-Whitney U test: whether the values of `b` tend to be larger or smaller than
+ * the values of `a`, without assuming latencies are normally distributed.
+ * Returns a p-value of 1 when either sample is empty or all values are equal.
+ *
+ * @example
+ * ```typescript
+ * mannWhitneyU([100, 102, 98, 101, 99], [120, 125, 118, 122, 121])
+ * // { u: 25, z: 2.51, p_value: 0.0122 }
+ * ```
+ */
+export function mannWhitneyU(a: number[], b: number[]): MannWhitneyResult {
+  const n1 = a.length;
+  const n2 = b.length;
+  const n = n1 + n2;
+  if (!n1 || !n2) {
+    return { u: 0, z: 0, p_value: 1 };
+  }
+
+  // Tied values share the average of the ranks they span
+  const values = [
+    ...a.map((value) => ({ value, inB: false })),
+    ...b.map((value) => ({ value, inB: true })),
+  ].sort((x, y) => x.value - y.value);
+  let rankSumB = 0;
+  let tieTerm = 0;
+  for (let i = 0; i < n;) {
+    let j = i;
+    while (j < n && values[j].value === values[i].value) {
+      j++;
+    }
+    const rank = (i + 1 + j) / 2;
+    for (let k = i; k < j; k++) {
+      if (values[k].inB) {
+        rankSumB += rank;
+      }
+    }
+    tieTerm += (j - i) ** 3 - (j - i);
+    i = j;
+  }
+
+  const u = rankSumB - (n2 * (n2 + 1)) / 2;
+  const mean = (n1 * n2) / 2;
+  const sigma = Math.sqrt(((n1 * n2) / 12) * (n + 1 - tieTerm / (n * (n - 1))));
+  if (!sigma) {
+    return { u, z: 0, p_value: 1 };
+  }
+
+  const z = (u - mean - Math.sign(u - mean) * 0.5) / sigma;
+  return {
+    u,
+    z: round(z),
+    p_value: round(Math.min(1, 2 * (1 - normalCdf(Math.abs(z)))), 4),
+  };
+}
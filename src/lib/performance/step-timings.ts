@@ -0,0 +1,90 @@
+import { DistributedTransactionEvents } from "@medusajs/framework/orchestration";
+import { performance } from "perf_hooks";
+import { roundMs } from "./stats";
+
+export interface StepTiming {
+  step: string;
+  action: string;
+  status: "success" | "failure" | "running";
+  started_at_ms: number;
+  duration_ms: number | null;
+  output_bytes: number | null;
+}
+
+export interface StepTimingCapture {
+  events: DistributedTransactionEvents;
+  steps(): StepTiming[];
+}
+
+/**
+ * Measures the serialized size of a step's saved response, in bytes.
+ * Returns null when the response cannot be serialized (e.g. circular data).
+ */
+function payloadSize(payload: unknown): number | null {
+  if (payload === undefined) {
+    return null;
+  }
+
+  try {
+    return Buffer.byteLength(JSON.stringify(payload) ?? "");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Creates a set of workflow events that record when every step of a workflow run
+ * begins and settles. Pass `events` to the workflow's `run` call and read the
+ * ordered timings with `steps()` once it has finished.
+ *
+ * @example
+ * ```typescript
+ * const capture = createStepTimingCapture();
+ * await updateProductsWorkflow(req.scope).run({ input, events: capture.events });
+ * capture.steps(); // [{ step: "_root.update-products", duration_ms: 812.4, ... }]
+ * ```
+ */
+export function createStepTimingCapture(): StepTimingCapture {
+  const origin = performance.now();
+  const timings = new Map<string, StepTiming>();
+
+  const settle = (
+    status: StepTiming["status"],
+    {
+      step,
+      transaction,
+    }: Parameters<NonNullable<DistributedTransactionEvents["onStepSuccess"]>>[0]
+  ) => {
+    const timing = timings.get(step.id);
+    if (!timing) {
+      return;
+    }
+
+    timing.status = status;
+    timing.duration_ms = roundMs(
+      performance.now() - origin - timing.started_at_ms
+    );
+    timing.output_bytes = payloadSize(
+      transaction.getContext().invoke[timing.action]
+    );
+  };
+
+  return {
+    events: {
+      onStepBegin: ({ step }) => {
+        timings.set(step.id, {
+          step: step.id,
+          action: step.definition.action ?? step.id,
+          status: "running",
+          started_at_ms: roundMs(performance.now() - origin),
+          duration_ms: null,
+          output_bytes: null,
+        });
+      },
+      onStepSuccess: (args) => settle("success", args),
+      onStepFailure: (args) => settle("failure", args),
+    },
+    steps: () =>
+      [...timings.values()].sort((a, b) => a.started_at_ms - b.started_at_ms),
+  };
+}
@@ -0,0 +1,455 @@
+import {
+  MedusaContainer,
+  ProductDTO,
+  UpdateProductWorkflowInputDTO,
+} from "@medusajs/framework/types";
+import {
+  ContainerRegistrationKeys,
+  MedusaError,
+  ProductStatus,
+} from "@medusajs/framework/utils";
+import {
+  deleteProductVariantsWorkflow,
+  updateProductsWorkflow,
+} from "@medusajs/medusa/core-flows";
+import { generateRandomString } from "../../scripts/utils/random-string-generator";
+
+export const UPDATE_SCENARIOS = [
+  "id-only",
+  "title-only",
+  "reorder-images",
+  "toggle-status",
+  "full-admin-payload",
+  "add-one-variant",
+  "shuffle-images",
+  "replace-images",
+  "append-images",
+  "delete-images",
+] as const;
+
+export type UpdateScenario = (typeof UPDATE_SCENARIOS)[number];
+
+// Scenarios whose workload depends on the `imageCount` option
+export const IMAGE_BATCH_SCENARIOS: UpdateScenario[] = [
+  "replace-images",
+  "append-images",
+  "delete-images",
+];
+
+export interface UpdateScenarioOptions {
+  // Number of images the replace/append/delete image scenarios touch
+  imageCount?: number;
+}
+
+export interface UpdateScenarioRun {
+  // The `updateProductsWorkflow` input of the scenario
+  input: UpdateProductWorkflowInputDTO;
+  // The state the scenario changes, put back by `cleanupUpdateScenario`
+  original?: {
+    status?: ProductDTO["status"];
+    images?: { id: string; url: string }[];
+  };
+}
+
+/**
+ * Returns a unique URL for a new image by tagging an existing image's URL, so
+ * appended and replaced images point to real (local) files without new uploads
+ */
+function uniqueImageUrl(url: string): string {
+  const tag = `perf=${generateRandomString(8, true, false, true)}`;
+  return `${url.split("?")[0]}?${tag}`;
+}
+
+/**
+ * Shuffles a copy of the list (Fisher-Yates)
+ */
+function shuffle<T>(items: T[]): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+const SCENARIO_FIELDS = [
+  "*",
+  "images.id",
+  "images.url",
+  "images.rank",
+  "options.id",
+  "options.title",
+  "options.values.value",
+  "variants.id",
+  "variants.options.value",
+  "variants.options.option_id",
+  "tags.id",
+  "categories.id",
+  "sales_channels.id",
+];
+
+// The product as loaded with SCENARIO_FIELDS
+export type ScenarioProduct = Omit<
+  ProductDTO,
+  "images" | "options" | "variants" | "tags" | "categories"
+> & {
+  images?: { id: string; url: string; rank: number }[];
+  options: { id: string; title: string; values: { value: string }[] }[];
+  variants: {
+    id: string;
+    options: { value: string; option_id?: string | null }[];
+  }[];
+  tags?: { id: string }[];
+  categories?: { id: string }[] | null;
+  sales_channels?: { id: string }[];
+};
+
+/**
+ * Lazily walks the cartesian product of the given option values
+ */
+function* combinations(
+  axes: { title: string; values: string[] }[],
+  index = 0,
+  current: Record<string, string> = {}
+): Generator<Record<string, string>> {
+  if (index === axes.length) {
+    yield { ...current };
+    return;
+  }
+
+  for (const value of axes[index].values) {
+    current[axes[index].title] = value;
+    yield* combinations(axes, index + 1, current);
+  }
+}
+
+/**
+ * Builds `count` variants for the option combinations the product doesn't have a
+ * variant for yet, used by the `add-one-variant` scenario and the bulk variant benchmark
+ * @param product The product with its options, option values and variant options
+ * @param count Number of variants to build
+ * @returns The variants, ready for the product workflows
+ */
+export function buildNewVariants(
+  product: Pick<ScenarioProduct, "id" | "options" | "variants">,
+  count: number
+): { title: string; sku: string; options: Record<string, string> }[] {
+  const optionTitles = new Map<string, string>(
+    product.options.map((option) => [option.id, option.title])
+  );
+  const axes = product.options.map((option) => ({
+    title: option.title,
+    values: option.values.map((value) => value.value),
+  }));
+
+  const keyOf = (options: Record<string, string>) =>
+    axes.map((axis) => options[axis.title]).join("|");
+  const existing = new Set(
+    product.variants.map((variant) =>
+      keyOf(
+        Object.fromEntries(
+          variant.options.map((value) => [
+            optionTitles.get(value.option_id ?? ""),
+            value.value,
+          ])
+        )
+      )
+    )
+  );
+
+  const variants: {
+    title: string;
+    sku: string;
+    options: Record<string, string>;
+  }[] = [];
+  for (const options of combinations(axes)) {
+    if (variants.length === count) {
+      break;
+    }
+    if (existing.has(keyOf(options))) {
+      continue;
+    }
+
+    variants.push({
+      title: Object.values(options).join(" / "),
+      sku: `PERF-${generateRandomString(8, true, false, true)}`,
+      options,
+    });
+  }
+
+  if (variants.length < count) {
+    throw new MedusaError(
+      MedusaError.Types.NOT_ALLOWED,
+      `Product ${product.id} only has ${variants.length} option combinations without a variant, ${count} are needed`
+    );
+  }
+
+  return variants;
+}
+
+/**
+ * Loads one price per currency of the product's first variant, i.e. the currencies
+ * the generator priced the product in, like the admin's create-variant form sends
+ * @param container The request scope
+ * @param product The product with its variants
+ * @returns The prices, empty when the product has no variants
+ */
+async function loadCurrencyPrices(
+  container: MedusaContainer,
+  product: Pick<ScenarioProduct, "variants">
+): Promise<{ amount: number; currency_code: string }[]> {
+  if (!product.variants.length) {
+    return [];
+  }
+
+  const query = container.resolve(ContainerRegistrationKeys.QUERY);
+  const {
+    data: [variant],
+  } = await query.graph({
+    entity: "product_variant",
+    fields: ["prices.amount", "prices.currency_code"],
+    filters: { id: product.variants[0].id },
+  });
+
+  const prices = new Map<string, number>();
+  for (const price of variant?.prices ?? []) {
+    if (!prices.has(price!.currency_code as string)) {
+      prices.set(price!.currency_code as string, price!.amount as number);
+    }
+  }
+  return [...prices].map(([currency_code, amount]) => ({
+    amount,
+    currency_code,
+  }));
+}
+
+/**
+ * Puts the product back the way it was before a scenario run, so every run of
+ * a benchmark measures the same product: removes the variants the input created
+ * (the ones sent without an id) and restores the original status and image list.
+ * Images the run deleted come back as new images with their original URL.
+ * @param container The request scope
+ * @param run The scenario built by `buildUpdateScenario`
+ */
+export async function cleanupUpdateScenario(
+  container: MedusaContainer,
+  { input, original }: UpdateScenarioRun
+): Promise<void> {
+  const query = container.resolve(ContainerRegistrationKeys.QUERY);
+
+  if (original?.status || original?.images) {
+    const {
+      data: [product],
+    } = original.images
+      ? await query.graph({
+          entity: "product",
+          fields: ["images.id"],
+          filters: { id: input.id },
+        })
+      : { data: [] };
+    const remaining = new Set<string>(
+      (product?.images ?? []).map((image) => image!.id)
+    );
+
+    await updateProductsWorkflow(container).run({
+      input: {
+        products: [
+          {
+            id: input.id,
+            status: original.status,
+            images: original.images?.map((image) =>
+              remaining.has(image.id) ? image : { url: image.url }
+            ),
+          },
+        ],
+      },
+    });
+  }
+
+  const skus = (input.variants ?? [])
+    .filter((variant) => !("id" in variant) && variant.sku)
+    .map((variant) => variant.sku as string);
+  if (!skus.length) {
+    return;
+  }
+
+  const { data: created } = await query.graph({
+    entity: "product_variant",
+    fields: ["id"],
+    filters: { product_id: input.id, sku: skus },
+  });
+  if (created.length) {
+    await deleteProductVariantsWorkflow(container).run({
+      input: { ids: created.map((variant) => variant.id) },
+    });
+  }
+}
+
+/**
+ * Builds the `updateProductsWorkflow` input of a scenario from the product's
+ * current state, mimicking what the admin dashboard sends for that kind of edit.
+ * The image scenarios send the full image list in its new order like the admin's
+ * media "organize" view does, and `add-one-variant` sends the new variant with a
+ * price per currency. Scenarios that change the product for good (`toggle-status`,
+ * `add-one-variant`, `replace-images`, `append-images` and `delete-images`) keep
+ * what they change, pass the result to `cleanupUpdateScenario` after the run to
+ * restore it.
+ *
+ * @example
+ * ```typescript
+ * const run = await buildUpdateScenario(req.scope, id, "append-images");
+ * await updateProductsWorkflow(req.scope).run({ input: { products: [run.input] } });
+ * await cleanupUpdateScenario(req.scope, run);
+ * ```
+ */
+export async function buildUpdateScenario(
+  container: MedusaContainer,
+  productId: string,
+  scenario: UpdateScenario,
+  { imageCount = 5 }: UpdateScenarioOptions = {}
+): Promise<UpdateScenarioRun> {
+  if (scenario === "id-only") {
+    return { input: { id: productId } };
+  }
+
+  const query = container.resolve(ContainerRegistrationKeys.QUERY);
+  const { data } = await query.graph({
+    entity: "product",
+    fields: SCENARIO_FIELDS,
+    filters: { id: productId },
+  });
+  const product: ScenarioProduct | undefined = data[0];
+
+  if (!product) {
+    throw new MedusaError(
+      MedusaError.Types.NOT_FOUND,
+      `Product with id: ${productId} was not found`
+    );
+  }
+
+  const images = [...(product.images ?? [])]
+    .sort((a, b) => a.rank - b.rank)
+    .map((image) => ({ id: image.id, url: image.url }));
+
+  switch (scenario) {
+    case "title-only":
+      return { input: { id: product.id, title: product.title } };
+    case "reorder-images":
+      return { input: { id: product.id, images: images.reverse() } };
+    case "toggle-status":
+      return {
+        input: {
+          id: product.id,
+          status:
+            product.status === ProductStatus.PUBLISHED
+              ? ProductStatus.DRAFT
+              : ProductStatus.PUBLISHED,
+        },
+        original: { status: product.status },
+      };
+    case "full-admin-payload":
+      return {
+        input: {
+          id: product.id,
+          title: product.title,
+          subtitle: product.subtitle,
+          description: product.description,
+          handle: product.handle,
+          status: product.status,
+          discountable: product.discountable,
+          thumbnail: product.thumbnail,
+          type_id: product.type_id,
+          collection_id: product.collection_id,
+          weight: product.weight,
+          length: product.length,
+          height: product.height,
+          width: product.width,
+          origin_country: product.origin_country,
+          hs_code: product.hs_code,
+          mid_code: product.mid_code,
+          material: product.material,
+          metadata: product.metadata ?? undefined,
+          tag_ids: (product.tags ?? []).map((tag) => tag.id),
+          category_ids: (product.categories ?? []).map(
+            (category) => category.id
+          ),
+          sales_channels: (product.sales_channels ?? []).map((channel) => ({
+            id: channel.id,
+          })),
+          images,
+          options: product.options.map((option) => ({
+            id: option.id,
+            title: option.title,
+            values: option.values.map((value) => value.value),
+          })),
+          variants: product.variants.map((variant) => ({ id: variant.id })),
+        },
+      };
+    case "add-one-variant": {
+      const prices = await loadCurrencyPrices(container, product);
+      return {
+        input: {
+          id: product.id,
+          variants: [
+            ...product.variants.map((variant) => ({ id: variant.id })),
+            ...buildNewVariants(product, 1).map((variant) => ({
+              ...variant,
+              prices,
+            })),
+          ],
+        },
+      };
+    }
+    case "shuffle-images":
+      return { input: { id: product.id, images: shuffle(images) } };
+    case "replace-images": {
+      if (!images.length) {
+        throw new MedusaError(
+          MedusaError.Types.NOT_ALLOWED,
+          `Product ${product.id} has no images to replace`
+        );
+      }
+      // Replace a random subset, keeping the position of every replaced image
+      const replaced = new Set(
+        shuffle(images.map((_, index) => index)).slice(0, imageCount)
+      );
+      return {
+        input: {
+          id: product.id,
+          images: images.map((image, index) =>
+            replaced.has(index) ? { url: uniqueImageUrl(image.url) } : image
+          ),
+        },
+        original: { images },
+      };
+    }
+    case "append-images": {
+      if (!images.length) {
+        throw new MedusaError(
+          MedusaError.Types.NOT_ALLOWED,
+          `Product ${product.id} has no images to append copies of`
+        );
+      }
+      return {
+        input: {
+          id: product.id,
+          images: [
+            ...images,
+            ...Array.from({ length: imageCount }, (_, i) => ({
+              url: uniqueImageUrl(images[i % images.length].url),
+            })),
+          ],
+        },
+        original: { images },
+      };
+    }
+    case "delete-images":
+      return {
+        input: {
+          id: product.id,
+          images: images.slice(0, Math.max(images.length - imageCount, 0)),
+        },
+        original: { images },
+      };
+  }
+}
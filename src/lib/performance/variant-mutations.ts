@@ -0,0 +1,151 @@
+import { MedusaContainer } from "@medusajs/framework/types";
+import {
+  ContainerRegistrationKeys,
+  MedusaError,
+} from "@medusajs/framework/utils";
+import {
+  createProductVariantsWorkflow,
+  deleteProductVariantsWorkflow,
+  updateProductVariantsWorkflow,
+} from "@medusajs/medusa/core-flows";
+import { timed } from "./benchmark";
+import {
+  createStepTimingCapture,
+  StepTiming,
+  StepTimingCapture,
+} from "./step-timings";
+import { buildNewVariants } from "./update-scenarios";
+
+export const VARIANT_BATCH_SIZES = [1, 10, 100, 500] as const;
+
+export const VARIANT_OPERATIONS = ["create", "update", "delete"] as const;
+
+export type VariantOperation = (typeof VARIANT_OPERATIONS)[number];
+
+export interface VariantOperationTiming {
+  operation: VariantOperation;
+  variant_count: number;
+  duration_ms: number;
+  steps: StepTiming[];
+}
+
+/**
+ * Runs one create → update → delete cycle of `batchSize` variants on a product
+ * and times every workflow.
+ *
+ * The update and delete operate on the variants created by the same cycle, so the
+ * product's original variants are never touched. When an operation fails, the
+ * created variants are still removed before the error is rethrown.
+ *
+ * @example
+ * ```typescript
+ * const timings = await runVariantMutationCycle(req.scope, productId, 100);
+ * // [{ operation: "create", variant_count: 100, duration_ms: 2310.5, steps: [...] }, ...]
+ * ```
+ */
+export async function runVariantMutationCycle(
+  container: MedusaContainer,
+  productId: string,
+  batchSize: number
+): Promise<VariantOperationTiming[]> {
+  const query = container.resolve(ContainerRegistrationKeys.QUERY);
+  const {
+    data: [product],
+  } = await query.graph({
+    entity: "product",
+    fields: [
+      "id",
+      "options.id",
+      "options.title",
+      "options.values.value",
+      "variants.id",
+      "variants.options.value",
+      "variants.options.option_id",
+    ],
+    filters: { id: productId },
+  });
+
+  if (!product) {
+    throw new MedusaError(
+      MedusaError.Types.NOT_FOUND,
+      `Product with id: ${productId} was not found`
+    );
+  }
+
+  // New variants get the prices of the first existing one, like a duplicated variant
+  const { data: templates } = product.variants.length
+    ? await query.graph({
+        entity: "product_variant",
+        fields: ["prices.amount", "prices.currency_code"],
+        filters: { id: product.variants[0]!.id },
+      })
+    : { data: [] };
+  const prices = (templates[0]?.prices ?? []).map((price) => ({
+    amount: price!.amount as number,
+    currency_code: price!.currency_code as string,
+  }));
+  const newVariants = buildNewVariants(product, batchSize).map((variant) => ({
+    ...variant,
+    product_id: product.id,
+    prices,
+  }));
+
+  const timings: VariantOperationTiming[] = [];
+  const run = async <T>(
+    operation: VariantOperation,
+    fn: (events: StepTimingCapture["events"]) => Promise<T>
+  ) => {
+    const capture = createStepTimingCapture();
+    const { result, duration_ms } = await timed(() => fn(capture.events));
+    timings.push({
+      operation,
+      variant_count: batchSize,
+      duration_ms,
+      steps: capture.steps(),
+    });
+    return result;
+  };
+
+  let createdIds: string[] = [];
+  try {
+    const { result: created } = await run("create", (events) =>
+      createProductVariantsWorkflow(container).run({
+        input: {
+          product_variants: newVariants,
+        },
+        events,
+      })
+    );
+    createdIds = created.map((variant) => variant.id);
+
+    await run("update", (events) =>
+      updateProductVariantsWorkflow(container).run({
+        input: {
+          product_variants: created.map((variant) => ({
+            id: variant.id,
+            title: `${variant.title} (edited)`,
+            metadata: { performance_edited: true },
+          })),
+        },
+        events,
+      })
+    );
+
+    await run("delete", (events) =>
+      deleteProductVariantsWorkflow(container).run({
+        input: { ids: createdIds },
+        events,
+      })
+    );
+    createdIds = [];
+  } finally {
+    // Restore the original variant set when the cycle didn't get to the delete
+    if (createdIds.length) {
+      await deleteProductVariantsWorkflow(container).run({
+        input: { ids: createdIds },
+      });
+    }
+  }
+
+  return timings;
+}
@@ -0,0 +1,8 @@
+import { Module } from "@medusajs/framework/utils";
+import BenchmarkModuleService from "./service";
+
+export const BENCHMARK_MODULE = "benchmark";
+
+export default Module(BENCHMARK_MODULE, {
+  service: BenchmarkModuleService,
+});
@@ -0,0 +1,25 @@
+import { Migration } from "@mikro-orm/migrations";
+
+export class Migration20261019080545 extends Migration {
+  override async up(): Promise<void> {
+    this.addSql(
+      `create table if not exists "benchmark_run" ("id" text not null, "operation" text not null, "scenario" text not null, "product_id" text null, "variant_count" integer null, "image_count" integer null, "product_shape" jsonb null, "iterations" integer not null, "warmup" integer not null default 0, "durations_ms" jsonb not null, "median_ms" real not null, "p95_ms" real not null, "summary" jsonb not null, "steps" jsonb null, "query_count" integer null, "db_time_ms" real null, "label" text null, "medusa_version" text not null, "commit" text null, "environment" jsonb not null, "metadata" jsonb null, "created_at" timestamptz not null default now(), "updated_at" timestamptz not null default now(), "deleted_at" timestamptz null, constraint "benchmark_run_pkey" primary key ("id"));`
+    );
+    this.addSql(
+      `CREATE INDEX IF NOT EXISTS "IDX_benchmark_run_deleted_at" ON "benchmark_run" (deleted_at) WHERE deleted_at IS NULL;`
+    );
+    this.addSql(
+      `CREATE INDEX IF NOT EXISTS "IDX_benchmark_run_operation_scenario" ON "benchmark_run" (operation, scenario) WHERE deleted_at IS NULL;`
+    );
+    this.addSql(
+      `CREATE INDEX IF NOT EXISTS "IDX_benchmark_run_product_id" ON "benchmark_run" (product_id) WHERE deleted_at IS NULL;`
+    );
+    this.addSql(
+      `CREATE INDEX IF NOT EXISTS "IDX_benchmark_run_label" ON "benchmark_run" (label) WHERE deleted_at IS NULL;`
+    );
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`drop table if exists "benchmark_run" cascade;`);
+  }
+}
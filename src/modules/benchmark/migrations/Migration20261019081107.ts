@@ -0,0 +1,19 @@
+import { Migration } from "@mikro-orm/migrations";
+
+export class Migration20261019081107 extends Migration {
+  override async up(): Promise<void> {
+    this.addSql(
+      `create table if not exists "benchmark_baseline" ("id" text not null, "operation" text not null, "scenario" text not null, "shape_key" text not null, "run_ids" jsonb not null, "durations_ms" jsonb not null, "median_ms" real not null, "p95_ms" real not null, "label" text null, "medusa_version" text null, "product_shape" jsonb null, "created_at" timestamptz not null default now(), "updated_at" timestamptz not null default now(), "deleted_at" timestamptz null, constraint "benchmark_baseline_pkey" primary key ("id"));`
+    );
+    this.addSql(
+      `CREATE INDEX IF NOT EXISTS "IDX_benchmark_baseline_deleted_at" ON "benchmark_baseline" (deleted_at) WHERE deleted_at IS NULL;`
+    );
+    this.addSql(
+      `CREATE INDEX IF NOT EXISTS "IDX_benchmark_baseline_operation_scenario_shape_key" ON "benchmark_baseline" (operation, scenario, shape_key) WHERE deleted_at IS NULL;`
+    );
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`drop table if exists "benchmark_baseline" cascade;`);
+  }
+}
@@ -0,0 +1,15 @@
+import { Migration } from "@mikro-orm/migrations";
+
+export class Migration20261019081814 extends Migration {
+  override async up(): Promise<void> {
+    this.addSql(
+      `alter table "benchmark_run" add column if not exists "trace_id" text null, add column if not exists "trace" jsonb null;`
+    );
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(
+      `alter table "benchmark_run" drop column if exists "trace_id", drop column if exists "trace";`
+    );
+  }
+}
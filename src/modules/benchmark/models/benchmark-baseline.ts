@@ -0,0 +1,26 @@
+import { model } from "@medusajs/framework/utils";
+
+/**
+ * A set of benchmark runs that new runs of the same operation, scenario and
+ * product shape are compared against. Only one baseline per combination is
+ * active, marking a new one soft-deletes the previous.
+ */
+const BenchmarkBaseline = model
+  .define("benchmark_baseline", {
+    id: model.id({ prefix: "bbase" }).primaryKey(),
+    operation: model.text().searchable(),
+    scenario: model.text().searchable(),
+    // See productShapeKey and workloadKey, e.g. "variants:100|images:10|width:800|prices:2+0+0|capture_queries"
+    shape_key: model.text(),
+    run_ids: model.json(),
+    // Durations of all runs in the set, pooled for the statistical test
+    durations_ms: model.json(),
+    median_ms: model.float(),
+    p95_ms: model.float(),
+    label: model.text().nullable(),
+    medusa_version: model.text().nullable(),
+    product_shape: model.json().nullable(),
+  })
+  .indexes([{ on: ["operation", "scenario", "shape_key"] }]);
+
+export default BenchmarkBaseline;
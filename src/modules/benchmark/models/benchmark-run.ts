@@ -0,0 +1,45 @@
+import { model } from "@medusajs/framework/utils";
+
+/**
+ * One recorded benchmark: the timings of a performance route call together with
+ * the product shape, version label and environment it ran in
+ */
+const BenchmarkRun = model
+  .define("benchmark_run", {
+    id: model.id({ prefix: "bench" }).primaryKey(),
+    // e.g. "product.get", "product.update", "variants.create", "prices.update"
+    operation: model.text().searchable(),
+    // Preset, update scenario, batch size or workflow the operation ran with
+    scenario: model.text().searchable(),
+    product_id: model.text().nullable(),
+    variant_count: model.number().nullable(),
+    image_count: model.number().nullable(),
+    // Generator metadata of the product, see GeneratedProductMetadata
+    product_shape: model.json().nullable(),
+    iterations: model.number(),
+    warmup: model.number().default(0),
+    durations_ms: model.json(),
+    median_ms: model.float(),
+    p95_ms: model.float(),
+    summary: model.json(),
+    steps: model.json().nullable(),
+    query_count: model.number().nullable(),
+    db_time_ms: model.float().nullable(),
+    // Free-form label to group runs, e.g. a branch or "medusa-2.8.3"
+    label: model.text().nullable(),
+    medusa_version: model.text(),
+    commit: model.text().nullable(),
+    environment: model.json(),
+    // Trace of the request that recorded the run, when local tracing is on
+    trace_id: model.text().nullable(),
+    // Spans of that trace, once attached to the run
+    trace: model.json().nullable(),
+    metadata: model.json().nullable(),
+  })
+  .indexes([
+    { on: ["operation", "scenario"] },
+    { on: ["product_id"] },
+    { on: ["label"] },
+  ]);
+
+export default BenchmarkRun;
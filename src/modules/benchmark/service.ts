@@ -0,0 +1,10 @@
+import { MedusaService } from "@medusajs/framework/utils";
+import BenchmarkBaseline from "./models/benchmark-baseline";
+import BenchmarkRun from "./models/benchmark-run";
+
+class BenchmarkModuleService extends MedusaService({
+  BenchmarkBaseline,
+  BenchmarkRun,
+}) {}
+
+export default BenchmarkModuleService;
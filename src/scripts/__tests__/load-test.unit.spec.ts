@@ -0,0 +1,125 @@
+import { buildLoadTestReport, planRequest } from "../load-test";
+
+type RequestSample = Parameters<typeof buildLoadTestReport>[0][number];
+
+const sample = (overrides: Partial<RequestSample>): RequestSample => ({
+  method: "GET",
+  product_id: "prod_1",
+  status: 200,
+  duration_ms: 100,
+  concurrent_saves: 0,
+  ...overrides,
+});
+
+describe("buildLoadTestReport", () => {
+  it("reports throughput, error rates and status codes", () => {
+    const report = buildLoadTestReport(
+      [
+        sample({ duration_ms: 100 }),
+        sample({ duration_ms: 200 }),
+        sample({ method: "POST", status: 500, error: "Internal error" }),
+        sample({ method: "POST", status: null, error: "fetch failed" }),
+      ],
+      2000,
+      2
+    );
+
+    expect(report.requests).toBe(4);
+    expect(report.throughput_rps).toBe(2);
+    expect(report.error_rate).toBe(0.5);
+    expect(report.status_codes).toEqual({
+      200: 2,
+      500: 1,
+      network_error: 1,
+    });
+    expect(report.methods.GET.error_rate).toBe(0);
+    expect(report.methods.POST.error_rate).toBe(1);
+  });
+
+  it("flags lock errors as contention", () => {
+    const report = buildLoadTestReport(
+      [
+        sample({ method: "POST" }),
+        sample({
+          method: "POST",
+          status: 500,
+          error: "deadlock detected",
+          concurrent_saves: 1,
+        }),
+      ],
+      1000,
+      2
+    );
+
+    expect(report.lock_contention.detected).toBe(true);
+    expect(report.lock_contention.lock_errors).toBe(1);
+  });
+
+  it("flags overlapping saves that are much slower", () => {
+    const report = buildLoadTestReport(
+      [
+        sample({ method: "POST", duration_ms: 100 }),
+        sample({ method: "POST", duration_ms: 100 }),
+        sample({ method: "POST", duration_ms: 300, concurrent_saves: 1 }),
+        sample({ method: "POST", duration_ms: 350, concurrent_saves: 1 }),
+      ],
+      1000,
+      2
+    );
+
+    expect(report.lock_contention).toEqual({
+      detected: true,
+      lock_errors: 0,
+      contended_saves: 2,
+      uncontended_median_ms: 100,
+      contended_median_ms: 300,
+      slowdown: 3,
+    });
+  });
+
+  it("does not flag contention without overlapping saves", () => {
+    const report = buildLoadTestReport(
+      [sample({}), sample({ method: "POST" })],
+      1000,
+      1
+    );
+
+    expect(report.lock_contention.detected).toBe(false);
+    expect(report.lock_contention.slowdown).toBeNull();
+  });
+});
+
+describe("planRequest", () => {
+  it("sends both reads and saves to every product in mixed mode", () => {
+    const productIds = ["prod_1", "prod_2"];
+    const methods: Record<string, Set<string>> = {};
+    for (let index = 0; index < 8; index++) {
+      const { productId, method } = planRequest(index, productIds, "mixed");
+      (methods[productId] ??= new Set()).add(method);
+    }
+
+    expect(methods).toEqual({
+      prod_1: new Set(["GET", "POST"]),
+      prod_2: new Set(["GET", "POST"]),
+    });
+  });
+
+  it("only sends the method of a single-method mode", () => {
+    const plans = [0, 1, 2, 3].map((index) =>
+      planRequest(index, ["prod_1", "prod_2"], "post")
+    );
+
+    expect(plans.map((plan) => plan.method)).toEqual([
+      "POST",
+      "POST",
+      "POST",
+      "POST",
+    ]);
+    expect(plans.map((plan) => plan.productId)).toEqual([
+      "prod_1",
+      "prod_2",
+      "prod_1",
+      "prod_2",
+    ]);
+  });
+});
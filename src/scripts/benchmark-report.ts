@@ -0,0 +1,138 @@
+import { ExecArgs } from "@medusajs/framework/types";
+import { ContainerRegistrationKeys } from "@medusajs/framework/utils";
+import { writeFileSync } from "fs";
+import {
+  BENCHMARK_RUN_LIST_FIELDS,
+  BenchmarkRunSelection,
+  buildRunFilters,
+} from "../lib/performance/benchmark-runs";
+import {
+  buildBenchmarkReport,
+  formatBenchmarkReport,
+  REPORT_FORMATS,
+  ReportFormat,
+} from "../lib/performance/report";
+import { BENCHMARK_MODULE } from "../modules/benchmark";
+import BenchmarkModuleService from "../modules/benchmark/service";
+
+type ReportOptions = {
+  format: ReportFormat;
+  out?: string;
+  limit: number;
+  selection: BenchmarkRunSelection;
+};
+
+/**
+ * Parses a date argument, rejecting values `Date` can't read
+ */
+function parseDate(key: string, value: string): Date {
+  const date = new Date(value);
+  if (!value || Number.isNaN(date.getTime())) {
+    throw new Error(
+      `Invalid ${key} "${value}". Use an ISO date, e.g. 2026-10-01`
+    );
+  }
+  return date;
+}
+
+/**
+ * Parses the script arguments, every argument is a key=value pair
+ * @param args Arguments passed after the script path to `medusa exec`
+ * @returns The report options
+ */
+function parseReportArgs(args: string[] = []): ReportOptions {
+  const options: ReportOptions = {
+    format: "markdown",
+    limit: 500,
+    selection: {},
+  };
+
+  for (const arg of args) {
+    const [key, ...rest] = arg.split("=");
+    const value = rest.join("=");
+
+    switch (key) {
+      case "format":
+        if (!(REPORT_FORMATS as readonly string[]).includes(value)) {
+          throw new Error(
+            `Unknown format "${value}". Use ${REPORT_FORMATS.join(", ")}`
+          );
+        }
+        options.format = value as ReportFormat;
+        break;
+      case "out":
+        options.out = value;
+        break;
+      case "limit":
+        options.limit = Number(value);
+        if (!value || !Number.isInteger(options.limit) || options.limit < 1) {
+          throw new Error(`Invalid limit "${value}". Use a positive integer`);
+        }
+        break;
+      case "run_ids":
+        options.selection.run_ids = value.split(",").filter(Boolean);
+        break;
+      case "product_id":
+      case "operation":
+      case "scenario":
+      case "label":
+      case "medusa_version":
+      case "commit":
+        options.selection[key] = value;
+        break;
+      case "created_after":
+      case "created_before":
+        options.selection[key] = parseDate(key, value);
+        break;
+      default:
+        throw new Error(
+          `Unknown argument "${arg}". Use format, out, limit, run_ids, product_id, operation, scenario, label, medusa_version, commit, created_after or created_before`
+        );
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Exports recorded benchmark runs as JSON, CSV or a Markdown table with the
+ * environment details, ordered along the seed product matrix
+ * (variants × image count × image width). Prints to stdout unless out= is given.
+ *
+ * @example
+ * ```bash
+ * yarn benchmark-report label=medusa-2.10.3
+ * yarn benchmark-report format=csv operation=product.update out=./product-update.csv
+ * ```
+ */
+export default async function benchmarkReport({ container, args }: ExecArgs) {
+  const logger = container.resolve(ContainerRegistrationKeys.LOGGER);
+  const benchmarkModuleService: BenchmarkModuleService =
+    container.resolve(BENCHMARK_MODULE);
+  const options = parseReportArgs(args);
+
+  const runs = await benchmarkModuleService.listBenchmarkRuns(
+    buildRunFilters(options.selection),
+    {
+      select: BENCHMARK_RUN_LIST_FIELDS,
+      take: options.limit,
+      order: { created_at: "DESC" },
+    }
+  );
+  if (!runs.length) {
+    logger.warn("No benchmark runs match the selection");
+    return;
+  }
+
+  const output = formatBenchmarkReport(
+    buildBenchmarkReport(runs),
+    options.format
+  );
+  if (options.out) {
+    writeFileSync(options.out, `${output}\n`);
+    logger.info(`Wrote ${runs.length} runs to ${options.out}`);
+    return;
+  }
+
+  process.stdout.write(`${output}\n`);
+}
@@ -0,0 +1,435 @@
+import { ExecArgs } from "@medusajs/framework/types";
+import { ContainerRegistrationKeys } from "@medusajs/framework/utils";
+import { performance } from "perf_hooks";
+import {
+  DurationSummary,
+  round,
+  roundMs,
+  summarizeDurations,
+} from "../lib/performance/stats";
+
+// Error messages Postgres and the workflow engine use when concurrent saves collide
+const LOCK_ERROR_PATTERN =
+  /deadlock|lock|could not serialize|serialization failure|already (being executed|running)|conflict/i;
+
+// Contended saves slower than this factor of uncontended ones are reported as lock contention
+const CONTENTION_SLOWDOWN_THRESHOLD = 2;
+
+type LoadTestMode = "get" | "post" | "mixed";
+
+type LoadTestOptions = {
+  url: string;
+  token?: string;
+  email?: string;
+  password?: string;
+  concurrency: number;
+  durationSeconds: number;
+  mode: LoadTestMode;
+  productIds: string[];
+  productCount: number;
+  query: string;
+};
+
+type RequestSample = {
+  method: "GET" | "POST";
+  product_id: string;
+  status: number | null;
+  duration_ms: number;
+  // Other POSTs to the same product that overlapped with this one
+  concurrent_saves: number;
+  error?: string;
+};
+
+export type LoadTestReport = {
+  duration_s: number;
+  concurrency: number;
+  requests: number;
+  throughput_rps: number;
+  error_rate: number;
+  status_codes: Record<string, number>;
+  latency: DurationSummary;
+  methods: Record<
+    string,
+    { requests: number; error_rate: number; latency: DurationSummary }
+  >;
+  lock_contention: {
+    detected: boolean;
+    lock_errors: number;
+    contended_saves: number;
+    uncontended_median_ms: number | null;
+    contended_median_ms: number | null;
+    slowdown: number | null;
+  };
+};
+
+/**
+ * Parses a numeric argument, rejecting values that would start no workers or end
+ * the run at once
+ */
+function parsePositiveNumber(key: string, value: string, integer = false) {
+  const number = Number(value);
+  if (
+    !value ||
+    !Number.isFinite(number) ||
+    number <= 0 ||
+    (integer && !Number.isInteger(number))
+  ) {
+    throw new Error(
+      `Invalid ${key} "${value}". Use a positive ${integer ? "integer" : "number"}`
+    );
+  }
+  return number;
+}
+
+/**
+ * Parses the script arguments, every argument is a key=value pair
+ * @param args Arguments passed after the script path to `medusa exec`
+ * @returns The load test options
+ */
+function parseLoadTestArgs(args: string[] = []): LoadTestOptions {
+  const options: LoadTestOptions = {
+    url: process.env.MEDUSA_BACKEND_URL ?? "http://localhost:9000",
+    token: process.env.MEDUSA_ADMIN_TOKEN,
+    email: process.env.MEDUSA_ADMIN_EMAIL,
+    password: process.env.MEDUSA_ADMIN_PASSWORD,
+    concurrency: 4,
+    durationSeconds: 30,
+    mode: "get",
+    productIds: [],
+    productCount: 1,
+    query: "",
+  };
+
+  for (const arg of args) {
+    const [key, ...rest] = arg.split("=");
+    const value = rest.join("=");
+
+    switch (key) {
+      case "url":
+        options.url = value;
+        break;
+      case "token":
+        options.token = value;
+        break;
+      case "email":
+        options.email = value;
+        break;
+      case "password":
+        options.password = value;
+        break;
+      case "concurrency":
+        options.concurrency = parsePositiveNumber(key, value, true);
+        break;
+      case "duration":
+        options.durationSeconds = parsePositiveNumber(key, value);
+        break;
+      case "mode":
+        if (!["get", "post", "mixed"].includes(value)) {
+          throw new Error(`Unknown mode "${value}". Use get, post or mixed`);
+        }
+        options.mode = value as LoadTestMode;
+        break;
+      case "products":
+        options.productIds = value.split(",").filter(Boolean);
+        break;
+      case "product_count":
+        options.productCount = parsePositiveNumber(key, value, true);
+        break;
+      case "query":
+        options.query = value;
+        break;
+      default:
+        throw new Error(
+          `Unknown argument "${arg}". Use url, token, email, password, concurrency, duration, mode, products, product_count or query`
+        );
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Builds the Authorization header: secret API keys use Basic auth, anything else is
+ * sent as a bearer token. Without a token, logs in with the admin email and password.
+ */
+async function authorize(options: LoadTestOptions): Promise<string> {
+  if (options.token) {
+    return options.token.startsWith("sk_")
+      ? `Basic ${Buffer.from(`${options.token}:`).toString("base64")}`
+      : `Bearer ${options.token}`;
+  }
+
+  if (!options.email || !options.password) {
+    throw new Error(
+      "Pass token=<secret API key or JWT>, or email=<admin email> password=<password>"
+    );
+  }
+
+  const response = await fetch(`${options.url}/auth/user/emailpass`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ email: options.email, password: options.password }),
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok || !body.token) {
+    throw new Error(
+      `Admin login failed (${response.status}): ${body.message ?? response.statusText}`
+    );
+  }
+
+  return `Bearer ${body.token}`;
+}
+
+/**
+ * Picks the products to load: the given ids, or the ones with the most variants
+ */
+async function selectProducts(
+  options: LoadTestOptions,
+  authorization: string
+): Promise<string[]> {
+  if (options.productIds.length) {
+    return options.productIds;
+  }
+
+  // The route lists the products with the most variants first
+  const response = await fetch(
+    `${options.url}/admin/performance/products?limit=${options.productCount}`,
+    { headers: { Authorization: authorization } }
+  );
+  if (!response.ok) {
+    throw new Error(
+      `Listing products failed (${response.status}): ${response.statusText}`
+    );
+  }
+
+  const { products } = (await response.json()) as {
+    products: { id: string }[];
+  };
+  return products.map((product) => product.id);
+}
+
+/**
+ * Picks the product and method of the n-th request. Products are cycled through in
+ * order; mixed mode flips between reads and saves after every full round, so each
+ * product gets both and reads overlap with saves to the same product.
+ */
+export function planRequest(
+  index: number,
+  productIds: string[],
+  mode: LoadTestMode
+): { productId: string; method: RequestSample["method"] } {
+  const cycle = Math.floor(index / productIds.length);
+  return {
+    productId: productIds[index % productIds.length],
+    method:
+      mode === "post" || (mode === "mixed" && cycle % 2) ? "POST" : "GET",
+  };
+}
+
+/**
+ * Summarizes the samples into throughput, latency percentiles, error rates and
+ * lock contention. Contention is detected from lock errors, or from saves that were
+ * much slower while another save to the same product was in flight.
+ */
+export function buildLoadTestReport(
+  samples: RequestSample[],
+  elapsedMs: number,
+  concurrency: number
+): LoadTestReport {
+  const isError = (sample: RequestSample) =>
+    !!sample.error || sample.status === null || sample.status >= 400;
+  const errorRate = (list: RequestSample[]) =>
+    list.length ? round(list.filter(isError).length / list.length) : 0;
+  const latency = (list: RequestSample[]) =>
+    summarizeDurations(list.map((sample) => sample.duration_ms));
+
+  const statusCodes: Record<string, number> = {};
+  for (const sample of samples) {
+    const key = String(sample.status ?? "network_error");
+    statusCodes[key] = (statusCodes[key] ?? 0) + 1;
+  }
+
+  const methods: LoadTestReport["methods"] = {};
+  for (const method of ["GET", "POST"] as const) {
+    const list = samples.filter((sample) => sample.method === method);
+    if (list.length) {
+      methods[method] = {
+        requests: list.length,
+        error_rate: errorRate(list),
+        latency: latency(list),
+      };
+    }
+  }
+
+  const saves = samples.filter(
+    (sample) => sample.method === "POST" && !isError(sample)
+  );
+  const contended = saves.filter((sample) => sample.concurrent_saves > 0);
+  const uncontended = saves.filter((sample) => sample.concurrent_saves === 0);
+  const lockErrors = samples.filter(
+    (sample) => sample.error && LOCK_ERROR_PATTERN.test(sample.error)
+  ).length;
+
+  const contendedMedian = contended.length ? latency(contended).median : null;
+  const uncontendedMedian = uncontended.length
+    ? latency(uncontended).median
+    : null;
+  const slowdown =
+    contendedMedian !== null && uncontendedMedian
+      ? round(contendedMedian / uncontendedMedian)
+      : null;
+
+  return {
+    duration_s: round(elapsedMs / 1000),
+    concurrency,
+    requests: samples.length,
+    throughput_rps: round(samples.length / (elapsedMs / 1000)),
+    error_rate: errorRate(samples),
+    status_codes: statusCodes,
+    latency: latency(samples),
+    methods,
+    lock_contention: {
+      detected:
+        lockErrors > 0 ||
+        (slowdown !== null && slowdown >= CONTENTION_SLOWDOWN_THRESHOLD),
+      lock_errors: lockErrors,
+      contended_saves: contended.length,
+      uncontended_median_ms: uncontendedMedian,
+      contended_median_ms: contendedMedian,
+      slowdown,
+    },
+  };
+}
+
+/**
+ * Drives the performance GET/POST routes of a running server with concurrent
+ * workers for a fixed duration and reports throughput, latency percentiles,
+ * error rates and lock contention between parallel saves of the same product
+ *
+ * @example
+ * ```bash
+ * yarn load-test token=sk_123 concurrency=8 duration=60 mode=mixed
+ * yarn load-test email=admin@example.com password=supersecret mode=post products=prod_1
+ * yarn load-test token=sk_123 product_count=3 query=scenario=title-only
+ * ```
+ */
+export default async function loadTest({ container, args }: ExecArgs) {
+  const logger = container.resolve(ContainerRegistrationKeys.LOGGER);
+  const options = parseLoadTestArgs(args);
+
+  const authorization = await authorize(options);
+  const productIds = await selectProducts(options, authorization);
+  if (!productIds.length) {
+    throw new Error("No products to load, seed the store first");
+  }
+
+  logger.info(
+    `Loading ${productIds.length} product(s) with ${options.concurrency} workers for ${options.durationSeconds}s (mode: ${options.mode})...`
+  );
+
+  const samples: RequestSample[] = [];
+  const savesInFlight = new Map<string, Set<RequestSample>>();
+  const start = performance.now();
+  const deadline = start + options.durationSeconds * 1000;
+  let requestCount = 0;
+  let errorCount = 0;
+
+  const sendRequest = async (worker: number) => {
+    const { productId, method } = planRequest(
+      requestCount++,
+      productIds,
+      options.mode
+    );
+
+    const sample: RequestSample = {
+      method,
+      product_id: productId,
+      status: null,
+      duration_ms: 0,
+      concurrent_saves: 0,
+    };
+    // Saves overlapping in time on the same product count against each other
+    const inFlight = savesInFlight.get(productId) ?? new Set<RequestSample>();
+    if (method === "POST") {
+      for (const other of inFlight) {
+        other.concurrent_saves++;
+        sample.concurrent_saves++;
+      }
+      inFlight.add(sample);
+      savesInFlight.set(productId, inFlight);
+    }
+
+    const requestStart = performance.now();
+    try {
+      // record=false keeps load test requests out of the benchmark run history
+      const response = await fetch(
+        `${options.url}/admin/performance/product/${productId}?record=false${
+          options.query ? `&${options.query}` : ""
+        }`,
+        { method, headers: { Authorization: authorization } }
+      );
+      const body = await response.json().catch(() => ({}));
+
+      sample.status = response.status;
+      if (!response.ok) {
+        sample.error = body.message ?? response.statusText;
+      }
+    } catch (e) {
+      sample.error = e instanceof Error ? e.message : String(e);
+    } finally {
+      sample.duration_ms = roundMs(performance.now() - requestStart);
+      inFlight.delete(sample);
+    }
+
+    samples.push(sample);
+    if (sample.error && ++errorCount <= 5) {
+      logger.warn(`Worker ${worker}: ${method} ${productId} - ${sample.error}`);
+    }
+  };
+
+  // Workers send requests back to back until the duration is over
+  const progress = setInterval(
+    () =>
+      logger.info(
+        `${samples.length} requests after ${Math.round(
+          (performance.now() - start) / 1000
+        )}s`
+      ),
+    5000
+  );
+  await Promise.all(
+    Array.from({ length: options.concurrency }, async (_, worker) => {
+      while (performance.now() < deadline) {
+        await sendRequest(worker);
+      }
+    })
+  );
+  clearInterval(progress);
+
+  const report = buildLoadTestReport(
+    samples,
+    performance.now() - start,
+    options.concurrency
+  );
+
+  logger.info(
+    `${report.requests} requests in ${report.duration_s}s: ${report.throughput_rps} req/s, ${Math.round(
+      report.error_rate * 100
+    )}% errors`
+  );
+  for (const [method, stats] of Object.entries(report.methods)) {
+    logger.info(
+      `${method}: median ${stats.latency.median} ms, p95 ${stats.latency.p95} ms, max ${stats.latency.max} ms, ${Math.round(
+        stats.error_rate * 100
+      )}% errors`
+    );
+  }
+  if (report.lock_contention.detected) {
+    logger.warn(
+      `Lock contention detected: ${report.lock_contention.lock_errors} lock errors, contended saves ${
+        report.lock_contention.slowdown ?? "-"
+      }x slower than uncontended ones`
+    );
+  }
+  logger.info(JSON.stringify(report, null, 2));
+}
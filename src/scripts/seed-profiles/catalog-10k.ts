@@ -0,0 +1,51 @@
+import { EUROPE, SeedProfile } from "./types";
+
+/**
+ * A production-like mixed catalog of 10,000 products with few variants each
+ */
+const profile: SeedProfile = {
+  name: "catalog-10k",
+  description: "10,000 mixed sheets, apparel, furniture and digital products",
+  currencies: ["eur", "usd"],
+  regions: [
+    { name: "Europe", currency_code: "eur", countries: EUROPE },
+    { name: "North America", currency_code: "usd", countries: ["us", "ca"] },
+  ],
+  inventory: { stocked_quantity: 1000 },
+  products: [
+    {
+      template: "sheets",
+      numProducts: 4000,
+      handleId: 1,
+      seed: 1,
+      variantsPerProduct: 6,
+      images: { amount: 3, size_width: 200 },
+    },
+    {
+      template: "apparel",
+      numProducts: 3000,
+      handleId: 2,
+      seed: 2,
+      variantsPerProduct: 8,
+      images: { amount: 3, size_width: 200 },
+    },
+    {
+      template: "furniture",
+      numProducts: 2000,
+      handleId: 3,
+      seed: 3,
+      variantsPerProduct: 4,
+      images: { amount: 3, size_width: 200 },
+    },
+    {
+      template: "digital",
+      numProducts: 1000,
+      handleId: 4,
+      seed: 4,
+      variantsPerProduct: 1,
+      images: { amount: 1, size_width: 200 },
+    },
+  ],
+};
+
+export default profile;
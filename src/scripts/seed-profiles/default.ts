@@ -0,0 +1,53 @@
+import { EUROPE, SeedProfile } from "./types";
+
+/**
+ * The original benchmark matrix: 100 variants with 5 or 100 images,
+ * each at a small (200px) and a large (3840px) width
+ */
+const profile: SeedProfile = {
+  name: "default",
+  description: "100 variants × 5/100 images × 200/3840px widths",
+  currencies: ["eur", "usd"],
+  regions: [{ name: "Europe", currency_code: "eur", countries: EUROPE }],
+  inventory: { stocked_quantity: 1000000 },
+  products: [
+    {
+      numProducts: 1,
+      title_suffix: "_small_images",
+      handleId: 1,
+      seed: 1,
+      variantsPerProduct: 100,
+      priceRange: { min: 25, max: 150 },
+      images: { amount: 5, size_width: 200 },
+    },
+    {
+      numProducts: 1,
+      title_suffix: "_large_images",
+      handleId: 11,
+      seed: 11,
+      variantsPerProduct: 100,
+      priceRange: { min: 25, max: 150 },
+      images: { amount: 5, size_width: 3840 },
+    },
+    {
+      numProducts: 1,
+      title_suffix: "_small_images",
+      handleId: 2,
+      seed: 2,
+      variantsPerProduct: 100,
+      priceRange: { min: 25, max: 150 },
+      images: { amount: 100, size_width: 200 },
+    },
+    {
+      numProducts: 1,
+      title_suffix: "_large_images",
+      handleId: 22,
+      seed: 22,
+      variantsPerProduct: 100,
+      priceRange: { min: 25, max: 150 },
+      images: { amount: 100, size_width: 3840 },
+    },
+  ],
+};
+
+export default profile;
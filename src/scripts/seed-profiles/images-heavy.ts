@@ -0,0 +1,26 @@
+import { EUROPE, SeedProfile } from "./types";
+
+/**
+ * Few variants with a growing number of small and large images,
+ * isolating the cost of the images relation
+ */
+const profile: SeedProfile = {
+  name: "images-heavy",
+  description: "20 variants × 50/100/250 images × 200/3840px widths",
+  currencies: ["eur", "usd"],
+  regions: [{ name: "Europe", currency_code: "eur", countries: EUROPE }],
+  inventory: { stocked_quantity: 1000000 },
+  products: [50, 100, 250].flatMap((amount) =>
+    [200, 3840].map((size_width) => ({
+      numProducts: 1,
+      title_suffix: `_${amount}_images_${size_width}px`,
+      handleId: amount * 10000 + size_width,
+      seed: amount * 10000 + size_width,
+      variantsPerProduct: 20,
+      priceRange: { min: 25, max: 150 },
+      images: { amount, size_width },
+    }))
+  ),
+};
+
+export default profile;
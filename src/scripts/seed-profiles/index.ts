@@ -0,0 +1,45 @@
+import path from "path";
+import catalog10k from "./catalog-10k";
+import defaultProfile from "./default";
+import imagesHeavy from "./images-heavy";
+import smoke from "./smoke";
+import { SeedProfile } from "./types";
+import variantsHeavy from "./variants-heavy";
+
+export * from "./types";
+
+const profiles: Record<string, SeedProfile> = Object.fromEntries(
+  [defaultProfile, smoke, imagesHeavy, variantsHeavy, catalog10k].map(
+    (profile) => [profile.name, profile]
+  )
+);
+
+/**
+ * Looks up a seed profile by name, or loads it from a JSON/TS file when given a path
+ * @param nameOrPath Profile name, e.g. "smoke", or a path like "./profiles/my-profile.json"
+ * @returns The profile
+ */
+export function getSeedProfile(nameOrPath: string): SeedProfile {
+  if (/\.(json|ts|js)$/.test(nameOrPath)) {
+    const loaded = require(path.resolve(process.cwd(), nameOrPath));
+    return (loaded.default ?? loaded) as SeedProfile;
+  }
+
+  const profile = profiles[nameOrPath];
+  if (!profile) {
+    throw new Error(
+      `Unknown seed profile "${nameOrPath}". Available profiles: ${Object.keys(
+        profiles
+      ).join(", ")}`
+    );
+  }
+
+  return profile;
+}
+
+/**
+ * Lists all seed profiles
+ */
+export function listSeedProfiles(): SeedProfile[] {
+  return Object.values(profiles);
+}
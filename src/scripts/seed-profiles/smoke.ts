@@ -0,0 +1,33 @@
+import { SeedProfile } from "./types";
+
+/**
+ * A tiny catalog to check that seeding and the performance routes work
+ */
+const profile: SeedProfile = {
+  name: "smoke",
+  description: "2 small products to verify the setup",
+  currencies: ["eur", "usd"],
+  regions: [{ name: "Europe", currency_code: "eur", countries: ["dk", "de"] }],
+  inventory: { stocked_quantity: 100 },
+  products: [
+    {
+      numProducts: 1,
+      title_suffix: "_smoke",
+      handleId: 1,
+      seed: 1,
+      variantsPerProduct: 5,
+      images: { amount: 2, size_width: 200 },
+    },
+    {
+      template: "digital",
+      numProducts: 1,
+      title_suffix: "_smoke",
+      handleId: 2,
+      seed: 2,
+      variantsPerProduct: 1,
+      images: { amount: 1, size_width: 200 },
+    },
+  ],
+};
+
+export default profile;
@@ -0,0 +1,42 @@
+import { ProductGeneratorOptions } from "../utils/product-generator";
+
+// Countries of the "Europe" region most profiles share
+export const EUROPE = ["gb", "de", "dk", "se", "fr", "es", "it"];
+
+/**
+ * A batch of generated products. Prices are created in every currency of the profile
+ * and the profile name is recorded in the product metadata.
+ */
+export type SeedProductBatch = Omit<
+  ProductGeneratorOptions,
+  "currencies" | "profile" | "pricing"
+> & {
+  pricing?: {
+    // Only price in the first N currencies of the profile
+    currencyCount?: number;
+    // Add a region-specific price for every region of the profile
+    regionPrices?: boolean;
+    // Number of rule-based (customer group) prices per variant
+    rulesPerVariant?: number;
+  };
+};
+
+/**
+ * Describes a complete seed scenario: store currencies, regions, inventory and
+ * the products to generate
+ */
+export interface SeedProfile {
+  name: string;
+  description: string;
+  // The first currency is the store's default currency
+  currencies: string[];
+  regions: Array<{
+    name: string;
+    currency_code: string;
+    countries: string[];
+  }>;
+  inventory: {
+    stocked_quantity: number;
+  };
+  products: SeedProductBatch[];
+}
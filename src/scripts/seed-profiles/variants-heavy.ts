@@ -0,0 +1,27 @@
+import { EUROPE, SeedProfile } from "./types";
+
+/**
+ * A growing number of variants with few small images,
+ * isolating the cost of variants, options and prices
+ */
+const profile: SeedProfile = {
+  name: "variants-heavy",
+  description: "100/250/500/1000 variants × 5 images × 200px width",
+  currencies: ["eur", "usd", "gbp"],
+  regions: [
+    { name: "Europe", currency_code: "eur", countries: EUROPE.slice(1) },
+    { name: "United Kingdom", currency_code: "gbp", countries: ["gb"] },
+  ],
+  inventory: { stocked_quantity: 1000000 },
+  products: [100, 250, 500, 1000].map((variantsPerProduct) => ({
+    numProducts: 1,
+    title_suffix: `_${variantsPerProduct}_variants`,
+    handleId: variantsPerProduct,
+    seed: variantsPerProduct,
+    variantsPerProduct,
+    priceRange: { min: 25, max: 150 },
+    images: { amount: 5, size_width: 200 },
+  })),
+};
+
+export default profile;
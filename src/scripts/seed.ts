@@ -1,10 +1,7 @@
 import { CreateInventoryLevelInput, ExecArgs } from "@medusajs/framework/types";
+import { ContainerRegistrationKeys, Modules } from "@medusajs/framework/utils";
 import {
-  ContainerRegistrationKeys,
-  Modules,
-  ProductStatus,
-} from "@medusajs/framework/utils";
-import {
+  CreateShippingOptionsWorkflowInput,
   createApiKeysWorkflow,
   createInventoryLevelsWorkflow,
   createProductCategoriesWorkflow,
@@ -19,20 +16,59 @@ import {
   linkSalesChannelsToStockLocationWorkflow,
   updateStoresWorkflow,
 } from "@medusajs/medusa/core-flows";
-import { generateSheetProducts } from "./utils/product-generator";
+import { getSeedProfile } from "./seed-profiles";
+import { chunk } from "./utils/chunk";
+import { uploadImageFixtures } from "./utils/image-fixtures";
+import { generateProducts, getImages } from "./utils/product-generator";
+
+// Products and inventory levels are created in chunks to keep large profiles within memory
+const CHUNK_SIZE = 100;
 
-export default async function seedDemoData({ container }: ExecArgs) {
+// Image URL of generated products until their fixtures are uploaded
+const PENDING_IMAGE_URL = "pending://image-fixture";
+
+/**
+ * Seeds the store from a seed profile, selected with the first argument or the
+ * SEED_PROFILE env var (default: "default")
+ *
+ * Every stage looks up existing entities by a stable key (name, country code,
+ * handle...) and only creates what is missing, so the script can be re-run to
+ * top up a benchmark database without dropping it.
+ *
+ * @example
+ * ```bash
+ * yarn seed smoke
+ * SEED_PROFILE=catalog-10k yarn seed
+ * yarn seed ./my-profile.json
+ * ```
+ */
+export default async function seedDemoData({ container, args }: ExecArgs) {
   const logger = container.resolve(ContainerRegistrationKeys.LOGGER);
   const link = container.resolve(ContainerRegistrationKeys.LINK);
   const query = container.resolve(ContainerRegistrationKeys.QUERY);
+  const apiKeyModuleService = container.resolve(Modules.API_KEY);
   const fulfillmentModuleService = container.resolve(Modules.FULFILLMENT);
+  const productModuleService = container.resolve(Modules.PRODUCT);
+  const regionModuleService = container.resolve(Modules.REGION);
   const salesChannelModuleService = container.resolve(Modules.SALES_CHANNEL);
+  const stockLocationModuleService = container.resolve(Modules.STOCK_LOCATION);
   const storeModuleService = container.resolve(Modules.STORE);
+  const taxModuleService = container.resolve(Modules.TAX);
+
+  const profile = getSeedProfile(
+    args?.[0] ?? process.env.SEED_PROFILE ?? "default"
+  );
+  logger.info(`Using seed profile "${profile.name}": ${profile.description}`);
 
-  const countries = ["gb", "de", "dk", "se", "fr", "es", "it"];
+  const countries = [
+    ...new Set(profile.regions.flatMap((region) => region.countries)),
+  ];
 
   logger.info("Seeding store data...");
-  const [store] = await storeModuleService.listStores();
+  const [store] = await storeModuleService.listStores(
+    {},
+    { relations: ["supported_currencies"] }
+  );
   let defaultSalesChannel = await salesChannelModuleService.listSalesChannels({
     name: "Default Sales Channel",
   });
@@ -57,62 +93,115 @@ export default async function seedDemoData({ container }: ExecArgs) {
     input: {
       selector: { id: store.id },
       update: {
+        // Keep currencies added by earlier runs, the profile's first currency is the default
         supported_currencies: [
-          {
-            currency_code: "eur",
-            is_default: true,
-          },
-          {
-            currency_code: "usd",
-          },
-        ],
+          ...new Set([
+            ...profile.currencies,
+            ...(store.supported_currencies ?? []).map((c) => c.currency_code),
+          ]),
+        ].map((currency_code) => ({
+          currency_code,
+          is_default: currency_code === profile.currencies[0],
+        })),
         default_sales_channel_id: defaultSalesChannel[0].id,
       },
     },
   });
   logger.info("Seeding region data...");
-  const { result: regionResult } = await createRegionsWorkflow(container).run({
-    input: {
-      regions: [
-        {
-          name: "Europe",
-          currency_code: "eur",
-          countries,
+  const existingRegions = await regionModuleService.listRegions(
+    {},
+    { relations: ["countries"] }
+  );
+  // A country can only belong to one region, so skip countries that are already assigned
+  const assignedCountries = new Set(
+    existingRegions.flatMap((region) =>
+      (region.countries ?? []).map((country) => country.iso_2)
+    )
+  );
+  const missingRegions = profile.regions.filter(
+    (region) =>
+      !existingRegions.some((existing) => existing.name === region.name)
+  );
+
+  let regionResult = existingRegions.filter((existing) =>
+    profile.regions.some((region) => region.name === existing.name)
+  );
+  if (missingRegions.length) {
+    const { result: createdRegions } = await createRegionsWorkflow(
+      container
+    ).run({
+      input: {
+        regions: missingRegions.map((region) => ({
+          ...region,
+          countries: region.countries.filter(
+            (country) => !assignedCountries.has(country)
+          ),
           payment_providers: ["pp_system_default"],
-        },
-      ],
-    },
-  });
-  const region = regionResult[0];
-  logger.info("Finished seeding regions.");
+        })),
+      },
+    });
+    regionResult = [...regionResult, ...createdRegions];
+  }
+  logger.info(
+    `Finished seeding regions (${missingRegions.length} created, ${
+      profile.regions.length - missingRegions.length
+    } reused).`
+  );
 
   logger.info("Seeding tax regions...");
-  await createTaxRegionsWorkflow(container).run({
-    input: countries.map((country_code) => ({
-      country_code,
-      provider_id: "tp_system",
-    })),
+  const existingTaxRegions = await taxModuleService.listTaxRegions({
+    country_code: countries,
   });
+  const missingTaxCountries = countries.filter(
+    (country_code) =>
+      !existingTaxRegions.some((tax) => tax.country_code === country_code)
+  );
+  if (missingTaxCountries.length) {
+    await createTaxRegionsWorkflow(container).run({
+      input: missingTaxCountries.map((country_code) => ({
+        country_code,
+        provider_id: "tp_system",
+      })),
+    });
+  }
   logger.info("Finished seeding tax regions.");
 
   logger.info("Seeding stock location data...");
-  const { result: stockLocationResult } = await createStockLocationsWorkflow(
-    container
-  ).run({
-    input: {
-      locations: [
-        {
-          name: "European Warehouse",
-          address: {
-            city: "Copenhagen",
-            country_code: "DK",
-            address_1: "",
+  let [stockLocation] = await stockLocationModuleService.listStockLocations({
+    name: "European Warehouse",
+  });
+
+  if (!stockLocation) {
+    const { result: stockLocationResult } = await createStockLocationsWorkflow(
+      container
+    ).run({
+      input: {
+        locations: [
+          {
+            name: "European Warehouse",
+            address: {
+              city: "Copenhagen",
+              country_code: "DK",
+              address_1: "",
+            },
           },
-        },
-      ],
-    },
+        ],
+      },
+    });
+    stockLocation = stockLocationResult[0];
+  }
+
+  const {
+    data: [stockLocationLinks],
+  } = await query.graph({
+    entity: "stock_location",
+    fields: [
+      "fulfillment_providers.id",
+      "fulfillment_sets.id",
+      "sales_channels.id",
+    ],
+    filters: { id: stockLocation.id },
   });
-  const stockLocation = stockLocationResult[0];
 
   await updateStoresWorkflow(container).run({
     input: {
@@ -123,14 +212,20 @@ export default async function seedDemoData({ container }: ExecArgs) {
     },
   });
 
-  await link.create({
-    [Modules.STOCK_LOCATION]: {
-      stock_location_id: stockLocation.id,
-    },
-    [Modules.FULFILLMENT]: {
-      fulfillment_provider_id: "manual_manual",
-    },
-  });
+  if (
+    !stockLocationLinks?.fulfillment_providers?.some(
+      (provider) => provider?.id === "manual_manual"
+    )
+  ) {
+    await link.create({
+      [Modules.STOCK_LOCATION]: {
+        stock_location_id: stockLocation.id,
+      },
+      [Modules.FULFILLMENT]: {
+        fulfillment_provider_id: "manual_manual",
+      },
+    });
+  }
 
   logger.info("Seeding fulfillment data...");
   const shippingProfiles = await fulfillmentModuleService.listShippingProfiles({
@@ -153,298 +248,348 @@ export default async function seedDemoData({ container }: ExecArgs) {
     shippingProfile = shippingProfileResult[0];
   }
 
-  const fulfillmentSet = await fulfillmentModuleService.createFulfillmentSets({
-    name: "European Warehouse delivery",
-    type: "shipping",
-    service_zones: [
-      {
-        name: "Europe",
-        geo_zones: [
-          {
-            country_code: "gb",
-            type: "country",
-          },
-          {
-            country_code: "de",
-            type: "country",
-          },
-          {
-            country_code: "dk",
-            type: "country",
-          },
-          {
-            country_code: "se",
-            type: "country",
-          },
-          {
-            country_code: "fr",
-            type: "country",
-          },
-          {
-            country_code: "es",
-            type: "country",
-          },
-          {
-            country_code: "it",
-            type: "country",
-          },
-        ],
-      },
-    ],
-  });
-
-  await link.create({
-    [Modules.STOCK_LOCATION]: {
-      stock_location_id: stockLocation.id,
-    },
-    [Modules.FULFILLMENT]: {
-      fulfillment_set_id: fulfillmentSet.id,
-    },
-  });
-
-  await createShippingOptionsWorkflow(container).run({
-    input: [
-      {
-        name: "Standard Shipping",
-        price_type: "flat",
-        provider_id: "manual_manual",
-        service_zone_id: fulfillmentSet.service_zones[0].id,
-        shipping_profile_id: shippingProfile.id,
-        type: {
-          label: "Standard",
-          description: "Ship in 2-3 days.",
-          code: "standard",
-        },
-        prices: [
-          {
-            currency_code: "usd",
-            amount: 10,
-          },
-          {
-            currency_code: "eur",
-            amount: 10,
-          },
-          {
-            region_id: region.id,
-            amount: 10,
-          },
-        ],
-        rules: [
-          {
-            attribute: "enabled_in_store",
-            value: "true",
-            operator: "eq",
-          },
-          {
-            attribute: "is_return",
-            value: "false",
-            operator: "eq",
-          },
-        ],
-      },
-      {
-        name: "Express Shipping",
-        price_type: "flat",
-        provider_id: "manual_manual",
-        service_zone_id: fulfillmentSet.service_zones[0].id,
-        shipping_profile_id: shippingProfile.id,
-        type: {
-          label: "Express",
-          description: "Ship in 24 hours.",
-          code: "express",
-        },
-        prices: [
-          {
-            currency_code: "usd",
-            amount: 10,
-          },
-          {
-            currency_code: "eur",
-            amount: 10,
-          },
-          {
-            region_id: region.id,
-            amount: 10,
-          },
-        ],
-        rules: [
-          {
-            attribute: "enabled_in_store",
-            value: "true",
-            operator: "eq",
-          },
-          {
-            attribute: "is_return",
-            value: "false",
-            operator: "eq",
-          },
-        ],
-      },
-    ],
-  });
-  logger.info("Finished seeding fulfillment data.");
-
-  await linkSalesChannelsToStockLocationWorkflow(container).run({
-    input: {
-      id: stockLocation.id,
-      add: [defaultSalesChannel[0].id],
-    },
-  });
-  logger.info("Finished seeding stock location data.");
+  let [fulfillmentSet] = await fulfillmentModuleService.listFulfillmentSets(
+    { name: "European Warehouse delivery" },
+    { relations: ["service_zones", "service_zones.geo_zones"] }
+  );
 
-  logger.info("Seeding publishable API key data...");
-  const { result: publishableApiKeyResult } = await createApiKeysWorkflow(
-    container
-  ).run({
-    input: {
-      api_keys: [
+  if (!fulfillmentSet) {
+    fulfillmentSet = await fulfillmentModuleService.createFulfillmentSets({
+      name: "European Warehouse delivery",
+      type: "shipping",
+      service_zones: [
         {
-          title: "Webshop",
-          type: "publishable",
-          created_by: "",
+          name: "Europe",
+          geo_zones: countries.map((country_code) => ({
+            country_code,
+            type: "country" as const,
+          })),
         },
       ],
-    },
-  });
-  const publishableApiKey = publishableApiKeyResult[0];
+    });
+  } else {
+    // Cover countries of regions added since the fulfillment set was created
+    const serviceZone = fulfillmentSet.service_zones[0];
+    const missingGeoZones = countries.filter(
+      (country_code) =>
+        !serviceZone.geo_zones.some(
+          (zone) => zone.country_code === country_code
+        )
+    );
+    if (missingGeoZones.length) {
+      await fulfillmentModuleService.createGeoZones(
+        missingGeoZones.map((country_code) => ({
+          service_zone_id: serviceZone.id,
+          country_code,
+          type: "country" as const,
+        }))
+      );
+    }
+  }
 
-  await linkSalesChannelsToApiKeyWorkflow(container).run({
-    input: {
-      id: publishableApiKey.id,
-      add: [defaultSalesChannel[0].id],
-    },
-  });
-  logger.info("Finished seeding publishable API key data.");
+  if (
+    !stockLocationLinks?.fulfillment_sets?.some(
+      (set) => set?.id === fulfillmentSet.id
+    )
+  ) {
+    await link.create({
+      [Modules.STOCK_LOCATION]: {
+        stock_location_id: stockLocation.id,
+      },
+      [Modules.FULFILLMENT]: {
+        fulfillment_set_id: fulfillmentSet.id,
+      },
+    });
+  }
 
-  logger.info("Seeding product data...");
+  const shippingPrices = [
+    ...profile.currencies.map((currency_code) => ({
+      currency_code,
+      amount: 10,
+    })),
+    ...regionResult.map((region) => ({
+      region_id: region.id,
+      amount: 10,
+    })),
+  ];
 
-  const { result: categoryResult } = await createProductCategoriesWorkflow(
-    container
-  ).run({
-    input: {
-      product_categories: [
-        {
-          name: "Shirts",
-          is_active: true,
-        },
+  const existingShippingOptions =
+    await fulfillmentModuleService.listShippingOptions({
+      service_zone: { id: fulfillmentSet.service_zones[0].id },
+    });
+
+  const shippingOptions: CreateShippingOptionsWorkflowInput = [
+    {
+      name: "Standard Shipping",
+      price_type: "flat",
+      provider_id: "manual_manual",
+      service_zone_id: fulfillmentSet.service_zones[0].id,
+      shipping_profile_id: shippingProfile.id,
+      type: {
+        label: "Standard",
+        description: "Ship in 2-3 days.",
+        code: "standard",
+      },
+      prices: shippingPrices,
+      rules: [
         {
-          name: "Sweatshirts",
-          is_active: true,
+          attribute: "enabled_in_store",
+          value: "true",
+          operator: "eq",
         },
         {
-          name: "Pants",
-          is_active: true,
+          attribute: "is_return",
+          value: "false",
+          operator: "eq",
         },
+      ],
+    },
+    {
+      name: "Express Shipping",
+      price_type: "flat",
+      provider_id: "manual_manual",
+      service_zone_id: fulfillmentSet.service_zones[0].id,
+      shipping_profile_id: shippingProfile.id,
+      type: {
+        label: "Express",
+        description: "Ship in 24 hours.",
+        code: "express",
+      },
+      prices: shippingPrices,
+      rules: [
         {
-          name: "Merch",
-          is_active: true,
+          attribute: "enabled_in_store",
+          value: "true",
+          operator: "eq",
         },
         {
-          name: "Sheets",
-          is_active: true,
+          attribute: "is_return",
+          value: "false",
+          operator: "eq",
         },
       ],
     },
+  ];
+  const missingShippingOptions = shippingOptions.filter(
+    (option) =>
+      !existingShippingOptions.some((existing) => existing.name === option.name)
+  );
+
+  if (missingShippingOptions.length) {
+    await createShippingOptionsWorkflow(container).run({
+      input: missingShippingOptions,
+    });
+  }
+  logger.info("Finished seeding fulfillment data.");
+
+  if (
+    !stockLocationLinks?.sales_channels?.some(
+      (channel) => channel?.id === defaultSalesChannel[0].id
+    )
+  ) {
+    await linkSalesChannelsToStockLocationWorkflow(container).run({
+      input: {
+        id: stockLocation.id,
+        add: [defaultSalesChannel[0].id],
+      },
+    });
+  }
+  logger.info("Finished seeding stock location data.");
+
+  logger.info("Seeding publishable API key data...");
+  let [publishableApiKey] = await apiKeyModuleService.listApiKeys({
+    title: "Webshop",
+    type: "publishable",
   });
 
-  await createProductsWorkflow(container).run({
-    input: {
-      products: [
-        ...generateSheetProducts(
-          {
-            numProducts: 1, // Generate 1 different sheet product
-            title_suffix: "_small_images",
-            handleId: 1,
-            variantsPerProduct: 100, // Each with up to 100 variants for performance testing
-            priceRange: { min: 25, max: 150 },
-            currencies: ["eur", "usd"],
-            images: {
-              amount: 5,
-              size_width: 200,
-            },
-          },
-          categoryResult,
-          shippingProfile,
-          defaultSalesChannel
-        ),
-        ...generateSheetProducts(
-          {
-            numProducts: 1, // Generate 1 different sheet product
-            title_suffix: "_large_images",
-            handleId: 11,
-            variantsPerProduct: 100, // Each with up to 100 variants for performance testing
-            priceRange: { min: 25, max: 150 },
-            currencies: ["eur", "usd"],
-            images: {
-              amount: 5,
-              size_width: 3840,
-            },
-          },
-          categoryResult,
-          shippingProfile,
-          defaultSalesChannel
-        ),
-        ...generateSheetProducts(
-          {
-            numProducts: 1, // Generate 2 different sheet products
-            title_suffix: "_small_images",
-            handleId: 2,
-            variantsPerProduct: 100, // Each with up to 100 variants for performance testing
-            priceRange: { min: 25, max: 150 },
-            currencies: ["eur", "usd"],
-            images: {
-              amount: 100,
-              size_width: 200,
-            },
-          },
-          categoryResult,
-          shippingProfile,
-          defaultSalesChannel
-        ),
-        ...generateSheetProducts(
+  if (!publishableApiKey) {
+    const { result: publishableApiKeyResult } = await createApiKeysWorkflow(
+      container
+    ).run({
+      input: {
+        api_keys: [
           {
-            numProducts: 1, // Generate 2 different sheet products
-            title_suffix: "_large_images",
-            handleId: 22,
-            variantsPerProduct: 100, // Each with up to 100 variants for performance testing
-            priceRange: { min: 25, max: 150 },
-            currencies: ["eur", "usd"],
-            images: {
-              amount: 100,
-              size_width: 3840,
-            },
+            title: "Webshop",
+            type: "publishable",
+            created_by: "",
           },
-          categoryResult,
-          shippingProfile,
-          defaultSalesChannel
-        ),
-      ],
-    },
+        ],
+      },
+    });
+    publishableApiKey = publishableApiKeyResult[0];
+  }
+
+  const {
+    data: [apiKeyLinks],
+  } = await query.graph({
+    entity: "api_key",
+    fields: ["sales_channels.id"],
+    filters: { id: publishableApiKey.id },
+  });
+
+  if (
+    !apiKeyLinks?.sales_channels?.some(
+      (channel) => channel?.id === defaultSalesChannel[0].id
+    )
+  ) {
+    await linkSalesChannelsToApiKeyWorkflow(container).run({
+      input: {
+        id: publishableApiKey.id,
+        add: [defaultSalesChannel[0].id],
+      },
+    });
+  }
+  logger.info("Finished seeding publishable API key data.");
+
+  logger.info("Seeding product data...");
+
+  const categoryNames = [
+    "Shirts",
+    "Sweatshirts",
+    "Pants",
+    "Merch",
+    "Sheets",
+    "Furniture",
+    "Digital",
+  ];
+  const existingCategories = await productModuleService.listProductCategories({
+    name: categoryNames,
   });
-  logger.info("Finished seeding product data.");
+  const missingCategoryNames = categoryNames.filter(
+    (name) => !existingCategories.some((category) => category.name === name)
+  );
+
+  let categoryResult: { id: string; name: string }[] = existingCategories;
+  if (missingCategoryNames.length) {
+    const { result: createdCategories } = await createProductCategoriesWorkflow(
+      container
+    ).run({
+      input: {
+        product_categories: missingCategoryNames.map((name) => ({
+          name,
+          is_active: true,
+        })),
+      },
+    });
+    categoryResult = [...categoryResult, ...createdCategories];
+  }
+
+  // Placeholder images are uploaded once per width through the file module
+  const imageFixtures = new Map<number, string[]>();
+  const getImageFixtures = async (width: number) => {
+    if (!imageFixtures.has(width)) {
+      logger.info(`Uploading ${width}px image fixtures...`);
+      imageFixtures.set(width, await uploadImageFixtures(container, width));
+    }
+    return imageFixtures.get(width)!;
+  };
+
+  let createdProducts = 0;
+  let skippedProducts = 0;
+  for (const batch of profile.products) {
+    const generated = generateProducts(
+      {
+        ...batch,
+        currencies: profile.currencies.slice(
+          0,
+          batch.pricing?.currencyCount ?? profile.currencies.length
+        ),
+        pricing: {
+          regions: batch.pricing?.regionPrices ? regionResult : [],
+          rulesPerVariant: batch.pricing?.rulesPerVariant,
+        },
+        profile: profile.name,
+        images: {
+          ...batch.images,
+          // Swapped for uploaded fixtures once the missing products are known
+          urls: [PENDING_IMAGE_URL],
+        },
+      },
+      categoryResult,
+      shippingProfile,
+      defaultSalesChannel
+    );
+
+    // Products are identified by their handle, only the missing ones are created.
+    // A product with the same handle from another profile is never taken as seeded.
+    const existingHandles = new Set<string>();
+    for (const handleChunk of chunk(
+      generated.map((product) => product.handle),
+      CHUNK_SIZE * 10
+    )) {
+      const existing = await productModuleService.listProducts(
+        { handle: handleChunk },
+        { select: ["handle", "metadata"] }
+      );
+      for (const product of existing) {
+        if (product.metadata?.generator_profile !== profile.name) {
+          throw new Error(
+            `Product "${product.handle}" already exists but wasn't seeded by the "${profile.name}" profile, remove it with "yarn teardown" first`
+          );
+        }
+        existingHandles.add(product.handle);
+      }
+    }
+    const products = generated.filter(
+      (product) => !existingHandles.has(product.handle)
+    );
+    createdProducts += products.length;
+    skippedProducts += generated.length - products.length;
+
+    // Fixtures are only uploaded when a product of the batch will be created,
+    // re-runs of a seeded profile leave no unreferenced files behind
+    if (products.length && batch.images.amount) {
+      const urls = await getImageFixtures(batch.images.size_width);
+      for (const product of products) {
+        product.images = getImages(batch.images.amount, urls);
+      }
+    }
+
+    for (const productChunk of chunk(products, CHUNK_SIZE)) {
+      await createProductsWorkflow(container).run({
+        input: {
+          products: productChunk,
+        },
+      });
+    }
+  }
+  logger.info(
+    `Finished seeding product data (${createdProducts} created, ${skippedProducts} already existed).`
+  );
 
   logger.info("Seeding inventory levels.");
 
   const { data: inventoryItems } = await query.graph({
     entity: "inventory_item",
-    fields: ["id"],
+    fields: ["id", "location_levels.location_id"],
   });
 
   const inventoryLevels: CreateInventoryLevelInput[] = [];
   for (const inventoryItem of inventoryItems) {
+    // Skip items that already have stock at the warehouse
+    if (
+      inventoryItem.location_levels?.some(
+        (level) => level?.location_id === stockLocation.id
+      )
+    ) {
+      continue;
+    }
+
     const inventoryLevel = {
       location_id: stockLocation.id,
-      stocked_quantity: 1000000,
+      stocked_quantity: profile.inventory.stocked_quantity,
       inventory_item_id: inventoryItem.id,
     };
     inventoryLevels.push(inventoryLevel);
   }
 
-  await createInventoryLevelsWorkflow(container).run({
-    input: {
-      inventory_levels: inventoryLevels,
-    },
-  });
+  for (const levelChunk of chunk(inventoryLevels, CHUNK_SIZE * 10)) {
+    await createInventoryLevelsWorkflow(container).run({
+      input: {
+        inventory_levels: levelChunk,
+      },
+    });
+  }
 
   logger.info("Finished seeding inventory levels data.");
 }
@@ -0,0 +1,194 @@
+import { ExecArgs } from "@medusajs/framework/types";
+import { ContainerRegistrationKeys, Modules } from "@medusajs/framework/utils";
+import { deleteProductsWorkflow } from "@medusajs/medusa/core-flows";
+import { getSeedProfile } from "./seed-profiles";
+import { chunk } from "./utils/chunk";
+
+// Products are looked up and deleted in chunks to keep large catalogs within memory
+const CHUNK_SIZE = 100;
+
+type TeardownOptions = {
+  dryRun: boolean;
+  metadata: { key: string; value?: string };
+};
+
+type TeardownSummary = {
+  products: number;
+  variants: number;
+  price_sets: number;
+  inventory_items: number;
+  inventory_levels: number;
+};
+
+/**
+ * Parses the script arguments, every argument is either "dry-run" or a key=value pair
+ * @param args Arguments passed after the script path to `medusa exec`
+ * @returns The teardown options
+ */
+function parseTeardownArgs(args: string[] = []): TeardownOptions {
+  let dryRun = process.env.DRY_RUN === "true";
+  let profileName = process.env.SEED_PROFILE ?? "default";
+  let metadata: TeardownOptions["metadata"] | undefined;
+
+  for (const arg of args) {
+    const [key, ...rest] = arg.split("=");
+    const value = rest.join("=");
+
+    switch (key) {
+      case "dry-run":
+        dryRun = true;
+        break;
+      case "profile":
+        profileName = value;
+        break;
+      case "metadata": {
+        const [metadataKey, ...metadataValue] = value.split(":");
+        metadata = {
+          key: metadataKey,
+          value: metadataValue.length ? metadataValue.join(":") : undefined,
+        };
+        break;
+      }
+      default:
+        throw new Error(
+          `Unknown argument "${arg}". Use dry-run, profile=<name> or metadata=<key>[:<value>]`
+        );
+    }
+  }
+
+  // Without an explicit marker, remove the products the seed profile generated
+  return {
+    dryRun,
+    metadata: metadata ?? {
+      key: "generator_profile",
+      value: getSeedProfile(profileName).name,
+    },
+  };
+}
+
+/**
+ * Removes generated products together with their variants, price sets, inventory
+ * items and inventory levels, using the core-flows delete workflows
+ *
+ * Products are matched by a metadata key. Without a marker, the products whose
+ * `generator_profile` is the seed profile (SEED_PROFILE or "default") are removed.
+ *
+ * @example
+ * ```bash
+ * yarn teardown dry-run
+ * yarn teardown profile=catalog-10k
+ * yarn teardown metadata=generator
+ * yarn teardown metadata=generator_template:apparel
+ * ```
+ */
+export default async function teardownPerformanceData({
+  container,
+  args,
+}: ExecArgs) {
+  const logger = container.resolve(ContainerRegistrationKeys.LOGGER);
+  const query = container.resolve(ContainerRegistrationKeys.QUERY);
+  const productModuleService = container.resolve(Modules.PRODUCT);
+
+  const options = parseTeardownArgs(args);
+
+  const marker = options.metadata;
+  logger.info(
+    `Looking up products with metadata "${marker.key}"${
+      marker.value ? ` = "${marker.value}"` : ""
+    }...`
+  );
+
+  const productIds: string[] = [];
+  for (let skip = 0; ; skip += CHUNK_SIZE * 10) {
+    const products = await productModuleService.listProducts(
+      {},
+      {
+        select: ["id", "metadata"],
+        take: CHUNK_SIZE * 10,
+        skip,
+        order: { id: "ASC" },
+      }
+    );
+
+    for (const product of products) {
+      if (
+        product.metadata?.[marker.key] !== undefined &&
+        (marker.value === undefined ||
+          `${product.metadata[marker.key]}` === marker.value)
+      ) {
+        productIds.push(product.id);
+      }
+    }
+
+    if (products.length < CHUNK_SIZE * 10) {
+      break;
+    }
+  }
+
+  const summary: TeardownSummary = {
+    products: productIds.length,
+    variants: 0,
+    price_sets: 0,
+    inventory_items: 0,
+    inventory_levels: 0,
+  };
+
+  for (const idChunk of chunk(productIds, CHUNK_SIZE)) {
+    const { data: products } = await query.graph({
+      entity: "product",
+      fields: [
+        "id",
+        "variants.id",
+        "variants.price_set.id",
+        "variants.inventory_items.inventory.id",
+        "variants.inventory_items.inventory.location_levels.id",
+      ],
+      filters: { id: idChunk },
+    });
+
+    const inventoryItems = new Map<string, number>();
+    for (const product of products) {
+      for (const variant of product.variants ?? []) {
+        summary.variants++;
+        if (variant?.price_set) {
+          summary.price_sets++;
+        }
+        for (const item of variant?.inventory_items ?? []) {
+          if (item?.inventory) {
+            inventoryItems.set(
+              item.inventory.id,
+              item.inventory.location_levels?.length ?? 0
+            );
+          }
+        }
+      }
+    }
+    summary.inventory_items += inventoryItems.size;
+    inventoryItems.forEach((levels) => (summary.inventory_levels += levels));
+  }
+
+  const report = `${summary.products} products, ${summary.variants} variants, ${summary.price_sets} price sets, ${summary.inventory_items} inventory items and ${summary.inventory_levels} inventory levels`;
+
+  if (options.dryRun) {
+    logger.info(`Dry run: would remove ${report}.`);
+    return;
+  }
+
+  if (!productIds.length) {
+    logger.info("No generated products found, nothing to remove.");
+    return;
+  }
+
+  logger.info(`Removing ${report}...`);
+  let removed = 0;
+  for (const idChunk of chunk(productIds, CHUNK_SIZE)) {
+    // Deleting a product also removes its variants, their price sets and
+    // inventory items (with their levels) that aren't shared with other variants
+    await deleteProductsWorkflow(container).run({
+      input: { ids: idChunk },
+    });
+    removed += idChunk.length;
+    logger.info(`Removed ${removed}/${productIds.length} products.`);
+  }
+  logger.info("Finished removing performance test data.");
+}
@@ -0,0 +1,122 @@
+import {
+  countCombinations,
+  decodeCombination,
+  sampleCombinations,
+  sampleUniqueIndices,
+} from "../combination-sampler";
+import { createSeededRandom } from "../random-string-generator";
+
+const axes = [
+  { title: "Size", values: ["70x180", "80x180", "90x200"] },
+  { title: "Color", values: ["White", "Navy"] },
+  { title: "Height", values: ["20cm", "30cm"] },
+];
+
+describe("countCombinations", () => {
+  it("multiplies the number of values of every axis", () => {
+    expect(countCombinations(axes)).toBe(12);
+  });
+
+  it("counts a single combination without axes", () => {
+    expect(countCombinations([])).toBe(1);
+  });
+});
+
+describe("decodeCombination", () => {
+  it("varies the last axis fastest", () => {
+    expect(decodeCombination(0, axes)).toEqual({
+      Size: "70x180",
+      Color: "White",
+      Height: "20cm",
+    });
+    expect(decodeCombination(1, axes)).toEqual({
+      Size: "70x180",
+      Color: "White",
+      Height: "30cm",
+    });
+    expect(decodeCombination(11, axes)).toEqual({
+      Size: "90x200",
+      Color: "Navy",
+      Height: "30cm",
+    });
+  });
+
+  it("keeps the keys in axis order", () => {
+    expect(Object.keys(decodeCombination(7, axes))).toEqual([
+      "Size",
+      "Color",
+      "Height",
+    ]);
+  });
+});
+
+describe("sampleUniqueIndices", () => {
+  it("draws distinct indices within the range", () => {
+    const indices = sampleUniqueIndices(1000, 200, createSeededRandom(1));
+
+    expect(indices).toHaveLength(200);
+    expect(new Set(indices).size).toBe(200);
+    expect(indices.every((index) => index >= 0 && index < 1000)).toBe(true);
+  });
+
+  it("caps the count at the size of the range", () => {
+    const indices = sampleUniqueIndices(5, 10, createSeededRandom(1));
+
+    expect([...indices].sort()).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it("returns the same indices for the same seed", () => {
+    expect(sampleUniqueIndices(67200, 50, createSeededRandom(42))).toEqual(
+      sampleUniqueIndices(67200, 50, createSeededRandom(42))
+    );
+  });
+
+  it("does not materialize huge spaces", () => {
+    const indices = sampleUniqueIndices(2 ** 40, 3, createSeededRandom(7));
+
+    expect(new Set(indices).size).toBe(3);
+  });
+
+  it("rejects spaces beyond the safe integer range", () => {
+    expect(() => sampleUniqueIndices(2 ** 60, 1)).toThrow("too large");
+  });
+
+  it("draws every index with about the same probability", () => {
+    const random = createSeededRandom(3);
+    const hits = new Array(10).fill(0);
+    for (let i = 0; i < 5000; i++) {
+      for (const index of sampleUniqueIndices(10, 3, random)) {
+        hits[index]++;
+      }
+    }
+
+    // 1500 expected hits per index
+    for (const count of hits) {
+      expect(count).toBeGreaterThan(1350);
+      expect(count).toBeLessThan(1650);
+    }
+  });
+});
+
+describe("sampleCombinations", () => {
+  it("draws unique combinations of the axes", () => {
+    const combinations = sampleCombinations(axes, 8, createSeededRandom(1));
+
+    expect(combinations).toHaveLength(8);
+    expect(
+      new Set(combinations.map((combination) => JSON.stringify(combination)))
+        .size
+    ).toBe(8);
+    for (const combination of combinations) {
+      for (const axis of axes) {
+        expect(axis.values).toContain(combination[axis.title]);
+      }
+    }
+  });
+
+  it("returns the whole space when more combinations are requested", () => {
+    expect(sampleCombinations(axes, 100, createSeededRandom(1))).toHaveLength(
+      12
+    );
+  });
+});
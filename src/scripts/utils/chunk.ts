@@ -0,0 +1,18 @@
+/**
+ * Splits a list into consecutive chunks, used to keep large batches of workflow input within memory
+ * @param items The list to split
+ * @param size Maximum number of items per chunk
+ * @returns The chunks, the last one may be smaller
+ *
+ * @example
+ * ```typescript
+ * chunk([1, 2, 3, 4, 5], 2); // [[1, 2], [3, 4], [5]]
+ * ```
+ */
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
@@ -3,24 +3,27 @@
  * Useful for planning performance tests and understanding variant limits
  */
 
-export function calculateSheetCombinations() {
-  // Generate size combinations: width 70-220 (increments of 10), length 180-240 (increments of 10)
-  const widths: number[] = [];
-  for (let w = 70; w <= 220; w += 10) {
-    widths.push(w);
-  }
-
-  const lengths: number[] = [];
-  for (let l = 180; l <= 240; l += 10) {
-    lengths.push(l);
-  }
+import { countCombinations } from "./combination-sampler";
+import {
+  OptionAxisDefinition,
+  SHEET_COLORS,
+  SHEET_HEIGHTS,
+  SHEET_LENGTHS,
+  SHEET_OPTION_AXES,
+  SHEET_SIZES,
+  SHEET_WIDTHS,
+} from "./option-axes";
 
-  const sizes = widths.length * lengths.length; // 16 × 7 = 112
+export function calculateSheetCombinations() {
+  // Read the same definitions the product generator uses, so the numbers can't drift apart
+  const widths = SHEET_WIDTHS;
+  const lengths = SHEET_LENGTHS;
 
-  const colors = 50; // As defined in product-generator.ts
-  const heights = 12; // As defined in product-generator.ts
+  const sizes = SHEET_SIZES.length; // 16 × 7 = 112
+  const colors = SHEET_COLORS.length;
+  const heights = SHEET_HEIGHTS.length;
 
-  const totalCombinations = sizes * colors * heights;
+  const totalCombinations = countCombinations(SHEET_OPTION_AXES);
 
   return {
     widths: widths.length,
@@ -32,6 +35,7 @@ export function calculateSheetCombinations() {
     details: {
       widthRange: `${widths[0]}-${widths[widths.length - 1]}`,
       lengthRange: `${lengths[0]}-${lengths[lengths.length - 1]}`,
+      heightRange: `${SHEET_HEIGHTS[0]}-${SHEET_HEIGHTS[heights - 1]}`,
       sizeExamples: [
         `${widths[0]}x${lengths[0]}`,
         `${widths[Math.floor(widths.length / 2)]}x${
@@ -43,6 +47,28 @@ export function calculateSheetCombinations() {
   };
 }
 
+/**
+ * Calculates the combination space of any set of option axes
+ * @param axes Option axes (default: the sheet Size/Color/Height axes)
+ * @returns Value count per option and the total number of combinations
+ *
+ * @example
+ * ```typescript
+ * calculateCombinations(createSyntheticAxes(8, 3)).totalCombinations // 6561
+ * ```
+ */
+export function calculateCombinations(
+  axes: OptionAxisDefinition[] = SHEET_OPTION_AXES
+) {
+  return {
+    options: axes.map((axis) => ({
+      title: axis.title,
+      values: axis.values.length,
+    })),
+    totalCombinations: countCombinations(axes),
+  };
+}
+
 export function displayCombinationInfo() {
   const info = calculateSheetCombinations();
 
@@ -56,7 +82,9 @@ export function displayCombinationInfo() {
   );
   console.log(`📦 Total Sizes: ${info.sizes} combinations`);
   console.log(`🎨 Colors: ${info.colors} options`);
-  console.log(`📏 Heights: ${info.heights} options (20cm-50cm)`);
+  console.log(
+    `📏 Heights: ${info.heights} options (${info.details.heightRange})`
+  );
   console.log("");
   console.log(
     `🔢 TOTAL POSSIBLE VARIANTS: ${info.totalCombinations.toLocaleString()}`
@@ -0,0 +1,110 @@
+import { RandomSource } from "./random-string-generator";
+
+/**
+ * An option axis, e.g. { title: "Color", values: ["White", "Navy"] }
+ */
+export interface CombinationAxis {
+  title: string;
+  values: string[];
+}
+
+/**
+ * Counts the combinations spanned by the given axes
+ * @param axes Option axes
+ * @returns Size of the cartesian product of all axis values
+ */
+export function countCombinations(axes: CombinationAxis[]): number {
+  return axes.reduce((total, axis) => total * axis.values.length, 1);
+}
+
+/**
+ * Draws `count` distinct indices from [0, total) with uniform probability,
+ * in random order (Floyd's algorithm followed by a Fisher-Yates shuffle)
+ * Time and memory grow with `count`, not with `total`
+ * @param total Size of the index space
+ * @param count Number of indices to draw (capped at `total`)
+ * @param random Random source (default: Math.random)
+ * @returns Array of unique indices
+ *
+ * @example
+ * ```typescript
+ * sampleUniqueIndices(67200, 3) // [40213, 118, 9921]
+ * ```
+ */
+export function sampleUniqueIndices(
+  total: number,
+  count: number,
+  random: RandomSource = Math.random
+): number[] {
+  if (!Number.isSafeInteger(total)) {
+    throw new Error(`Combination space of ${total} is too large to sample`);
+  }
+
+  const size = Math.max(0, Math.min(count, total));
+  const picked = new Set<number>();
+
+  for (let j = total - size; j < total; j++) {
+    const candidate = Math.floor(random() * (j + 1));
+    picked.add(picked.has(candidate) ? j : candidate);
+  }
+
+  const indices = [...picked];
+  for (let i = indices.length - 1; i > 0; i--) {
+    const k = Math.floor(random() * (i + 1));
+    [indices[i], indices[k]] = [indices[k], indices[i]];
+  }
+
+  return indices;
+}
+
+/**
+ * Decodes an index of the combination space into its option values
+ * The last axis varies fastest, like nested loops over the axes in order
+ * @param index Index in [0, countCombinations(axes))
+ * @param axes Option axes
+ * @returns Combination keyed by axis title
+ *
+ * @example
+ * ```typescript
+ * decodeCombination(1, [
+ *   { title: "Size", values: ["70x180", "80x180"] },
+ *   { title: "Color", values: ["White", "Navy"] },
+ * ]) // { Size: "70x180", Color: "Navy" }
+ * ```
+ */
+export function decodeCombination(
+  index: number,
+  axes: CombinationAxis[]
+): Record<string, string> {
+  const combination: Record<string, string> = {};
+  let remainder = index;
+
+  for (let i = axes.length - 1; i >= 0; i--) {
+    const { title, values } = axes[i];
+    combination[title] = values[remainder % values.length];
+    remainder = Math.floor(remainder / values.length);
+  }
+
+  // Keep the keys in axis order
+  return Object.fromEntries(
+    axes.map(({ title }) => [title, combination[title]])
+  );
+}
+
+/**
+ * Draws `count` unique combinations of the given axes with uniform probability,
+ * without materializing the whole combination space
+ * @param axes Option axes
+ * @param count Number of combinations to draw (capped at the space size)
+ * @param random Random source (default: Math.random)
+ * @returns Array of combinations keyed by axis title
+ */
+export function sampleCombinations(
+  axes: CombinationAxis[],
+  count: number,
+  random: RandomSource = Math.random
+): Record<string, string>[] {
+  return sampleUniqueIndices(countCombinations(axes), count, random).map(
+    (index) => decodeCombination(index, axes)
+  );
+}
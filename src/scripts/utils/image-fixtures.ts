@@ -0,0 +1,129 @@
+import { MedusaContainer } from "@medusajs/framework/types";
+import { uploadFilesWorkflow } from "@medusajs/medusa/core-flows";
+import { deflateSync } from "zlib";
+import { createSeededRandom, RandomSource } from "./random-string-generator";
+
+// Distinct fixture files per width, products cycle through them like real catalogs reuse photos
+export const IMAGE_FIXTURE_SET_SIZE = 3;
+
+// Placeholders use the 4:3 aspect ratio of typical product photos
+const ASPECT_RATIO = 3 / 4;
+
+// Noise added to every pixel so the files don't compress to almost nothing
+const NOISE_LEVELS = 2;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(buffer: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of buffer) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/**
+ * Renders a placeholder PNG: a diagonal gradient in a random hue with light noise
+ * @param width Image width in pixels
+ * @param random Random source, a seeded one renders the same image every time
+ * @returns The encoded PNG
+ *
+ * @example
+ * ```typescript
+ * const png = createPlaceholderPng(800, createSeededRandom(1)); // 800x600
+ * ```
+ */
+export function createPlaceholderPng(
+  width: number,
+  random: RandomSource = Math.random
+): Buffer {
+  const height = Math.max(1, Math.round(width * ASPECT_RATIO));
+  const base = [0, 1, 2].map(() => 64 + Math.floor(random() * 128));
+
+  // Every row starts with filter type 0 (none) followed by RGB triplets
+  const rowLength = width * 3 + 1;
+  const pixels = Buffer.alloc(rowLength * height);
+  for (let y = 0; y < height; y++) {
+    const row = y * rowLength;
+    for (let x = 0; x < width; x++) {
+      const shade = ((x / width + y / height) / 2) * 64;
+      for (let channel = 0; channel < 3; channel++) {
+        pixels[row + 1 + x * 3 + channel] = Math.min(
+          255,
+          base[channel] + shade + Math.floor(random() * NOISE_LEVELS)
+        );
+      }
+    }
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // color type: RGB
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", deflateSync(pixels)),
+    pngChunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+/**
+ * Renders a set of placeholder images of the given width and uploads them through
+ * the configured file module, so image scenarios don't depend on a remote CDN
+ * @param container The Medusa container
+ * @param width Image width in pixels
+ * @param seed Optional seed, the same seed renders the same images
+ * @returns The URLs of the uploaded files
+ *
+ * @example
+ * ```typescript
+ * const urls = await uploadImageFixtures(container, 1920, 42);
+ * const products = generateProducts(
+ *   { ...options, images: { amount: 10, size_width: 1920, urls } },
+ *   categoryResult,
+ *   shippingProfile,
+ *   defaultSalesChannel
+ * );
+ * ```
+ */
+export async function uploadImageFixtures(
+  container: MedusaContainer,
+  width: number,
+  seed?: number | string
+): Promise<string[]> {
+  const random =
+    seed !== undefined
+      ? createSeededRandom(`image-fixtures-${width}-${seed}`)
+      : Math.random;
+
+  const { result } = await uploadFilesWorkflow(container).run({
+    input: {
+      files: Array.from({ length: IMAGE_FIXTURE_SET_SIZE }, (_, i) => ({
+        filename: `performance-fixture-${width}w-${i + 1}.png`,
+        mimeType: "image/png",
+        // The local file provider writes the content as a binary string
+        content: createPlaceholderPng(width, random).toString("binary"),
+        access: "public" as const,
+      })),
+    },
+  });
+
+  return result.map((file) => file.url);
+}
@@ -0,0 +1,171 @@
+import { CombinationAxis } from "./combination-sampler";
+
+/**
+ * How the values of an option are ordered on the generated product
+ * - `alphabetical`: plain string sort
+ * - `numeric`: by the leading number of the value, e.g. "25cm"
+ * - `dimensions`: by each number of a "WxL" value in turn, e.g. "140x200"
+ * - `none`: keep the order of `values`
+ */
+export type OptionAxisSort = "alphabetical" | "numeric" | "dimensions" | "none";
+
+/**
+ * An option axis supplied as data: its title, the values variants can pick from
+ * and the order the values are listed in on the product
+ */
+export interface OptionAxisDefinition extends CombinationAxis {
+  sort?: OptionAxisSort;
+}
+
+// Comprehensive size options: width 70-220 (increments of 10), length 180-240 (increments of 10)
+export const SHEET_WIDTHS: number[] = [];
+for (let width = 70; width <= 220; width += 10) {
+  SHEET_WIDTHS.push(width);
+}
+
+export const SHEET_LENGTHS: number[] = [];
+for (let length = 180; length <= 240; length += 10) {
+  SHEET_LENGTHS.push(length);
+}
+
+export const SHEET_SIZES = SHEET_WIDTHS.flatMap((width) =>
+  SHEET_LENGTHS.map((length) => `${width}x${length}`)
+);
+
+export const SHEET_COLORS = [
+  "White",
+  "Cream",
+  "Light Blue",
+  "Sage Green",
+  "Soft Pink",
+  "Charcoal",
+  "Navy",
+  "Burgundy",
+  "Lavender",
+  "Mint Green",
+  "Dusty Rose",
+  "Stone Gray",
+  "Ivory",
+  "Pearl",
+  "Silver",
+  "Platinum",
+  "Champagne",
+  "Beige",
+  "Taupe",
+  "Mocha",
+  "Espresso",
+  "Black",
+  "Midnight Blue",
+  "Royal Blue",
+  "Teal",
+  "Forest Green",
+  "Olive",
+  "Rose Gold",
+  "Blush",
+  "Coral",
+  "Peach",
+  "Apricot",
+  "Sunshine",
+  "Golden",
+  "Amber",
+  "Rust",
+  "Terracotta",
+  "Brick Red",
+  "Wine",
+  "Plum",
+  "Eggplant",
+  "Violet",
+  "Lilac",
+  "Periwinkle",
+  "Sky Blue",
+  "Aqua",
+  "Turquoise",
+  "Seafoam",
+  "Jade",
+  "Emerald",
+];
+
+export const SHEET_HEIGHTS = [
+  "20cm", // Ultra Low
+  "22cm", // Very Low
+  "25cm", // Standard
+  "27cm", // Medium Low
+  "30cm", // Deep
+  "32cm", // Medium Deep
+  "35cm", // Extra Deep
+  "37cm", // Very Deep
+  "40cm", // Super Deep
+  "42cm", // Ultra Deep
+  "45cm", // Maximum
+  "50cm", // Oversized
+];
+
+/**
+ * The Size, Color and Height axes used for bed sheets
+ */
+export const SHEET_OPTION_AXES: OptionAxisDefinition[] = [
+  { title: "Size", values: SHEET_SIZES, sort: "dimensions" },
+  { title: "Color", values: SHEET_COLORS, sort: "alphabetical" },
+  { title: "Height", values: SHEET_HEIGHTS, sort: "numeric" },
+];
+
+/**
+ * Sorts the values of an axis according to its `sort` setting
+ * @param axis Axis the values belong to
+ * @param values Values to sort (not modified)
+ * @returns Sorted copy of the values
+ */
+export function sortAxisValues(
+  axis: OptionAxisDefinition,
+  values: string[]
+): string[] {
+  const sorted = [...values];
+
+  switch (axis.sort ?? "alphabetical") {
+    case "none":
+      return sorted;
+    case "numeric":
+      return sorted.sort((a, b) => parseFloat(a) - parseFloat(b));
+    case "dimensions":
+      return sorted.sort((a, b) => {
+        // Sort by width first, then length
+        const [aW, aH] = a.split("x").map(Number);
+        const [bW, bH] = b.split("x").map(Number);
+        return aW === bW ? aH - bH : aW - bW;
+      });
+    default:
+      return sorted.sort();
+  }
+}
+
+/**
+ * Creates generic option axes to benchmark how the number of options affects a product,
+ * independently of the number of variants
+ * @param optionCount Number of options
+ * @param valuesPerOption Number of values on each option
+ * @returns Axes titled "Option 1".."Option N" with values "Value 1".."Value M"
+ *
+ * @example
+ * ```typescript
+ * createSyntheticAxes(5, 4) // 5 options with 4 values each = 1,024 combinations
+ * ```
+ */
+export function createSyntheticAxes(
+  optionCount: number,
+  valuesPerOption: number
+): OptionAxisDefinition[] {
+  return Array.from({ length: optionCount }, (_, i) => ({
+    title: `Option ${i + 1}`,
+    values: Array.from({ length: valuesPerOption }, (_, j) => `Value ${j + 1}`),
+    sort: "none",
+  }));
+}
+
+/**
+ * The option Medusa uses for products without variants
+ */
+export const DEFAULT_OPTION_AXIS: OptionAxisDefinition = {
+  title: "Default option",
+  values: ["Default option value"],
+  sort: "none",
+};
@@ -1,8 +1,29 @@
 import { ProductStatus } from "@medusajs/framework/utils";
-import { generateRandomString } from "./random-string-generator";
+import { countCombinations, sampleCombinations } from "./combination-sampler";
+import {
+  DEFAULT_OPTION_AXIS,
+  OptionAxisDefinition,
+  sortAxisValues,
+} from "./option-axes";
+import { getProductTemplate } from "./product-templates";
+import {
+  createSeededRandom,
+  generateRandomString,
+} from "./random-string-generator";
+import {
+  buildVariantPrices,
+  PriceRegion,
+  VariantPrice,
+} from "./variant-prices";
 
 // Random string utilities are now imported from separate file
 
+// Bump when a change to the generator changes the shape of the products it produces
+export const PRODUCT_GENERATOR_VERSION = "1.0.0";
+
+// Value of the `generator` metadata key, marks a product as generated
+export const PRODUCT_GENERATOR_NAME = "performance-product-generator";
+
 export interface ProductGeneratorOptions {
   numProducts: number;
   handleId: number;
@@ -12,14 +33,49 @@ export interface ProductGeneratorOptions {
     max: number;
   };
   currencies?: string[];
+  // Extra prices per variant on top of one per currency, to vary the size of the price sets
+  pricing?: {
+    // Regions that get a region-specific price
+    regions?: PriceRegion[];
+    // Number of rule-based (customer group) prices
+    rulesPerVariant?: number;
+  };
   images: {
     amount: number;
     size_width: number;
+    // Uploaded fixture URLs the product images cycle through, see uploadImageFixtures
+    urls?: string[];
   };
   title_suffix?: string;
+  // Seed for the random generator, the same seed always produces the same products
+  seed?: number | string;
+  // Option axes the variants are drawn from (default: the template's axes)
+  optionAxes?: OptionAxisDefinition[];
+  // Name of a registered product template (default: "sheets")
+  template?: string;
+  // Name of the seed profile the batch belongs to, recorded in the product metadata
+  profile?: string;
 }
 
-export interface SheetVariantCombination extends Record<string, string> {
+// Records how a product was generated, so a benchmark result can be traced back to its input shape
+export type GeneratedProductMetadata = {
+  generator: typeof PRODUCT_GENERATOR_NAME;
+  generator_version: string;
+  generator_template: string;
+  generator_seed: number | string | null;
+  generator_profile: string | null;
+  requested_variants: number;
+  image_count: number;
+  image_width: number;
+  price_currencies: number;
+  region_prices: number;
+  price_rules: number;
+};
+
+// Option values of a variant keyed by option title, e.g. { Size: "140x200", Color: "Navy" }
+export type VariantCombination = Record<string, string>;
+
+export interface SheetVariantCombination extends VariantCombination {
   Size: string;
   Color: string;
   Height: string;
@@ -38,17 +94,16 @@ export interface GeneratedProduct {
   variants: Array<{
     title: string;
     sku: string;
-    options: SheetVariantCombination;
-    prices: Array<{
-      amount: number;
-      currency_code: string;
-    }>;
+    options: VariantCombination;
+    manage_inventory?: boolean;
+    prices: VariantPrice[];
   }>;
   sales_channels: Array<{ id: string }>;
+  metadata: GeneratedProductMetadata;
 }
 
 /**
- * Generates a list of sheet products with customizable variants
+ * Generates a list of products from a registered template with customizable variants
  *
  * @param options Configuration for product generation
  * @param categoryResult Array of categories from Medusa
@@ -58,12 +113,14 @@ export interface GeneratedProduct {
  *
  * @example
  * ```typescript
- * const products = generateSheetProducts(
+ * const products = generateProducts(
  *   {
+ *     template: "apparel", // "sheets", "apparel", "furniture" or "digital"
  *     numProducts: 10,
  *     variantsPerProduct: 8,
  *     priceRange: { min: 30, max: 100 },
- *     currencies: ["eur", "usd", "gbp"]
+ *     currencies: ["eur", "usd", "gbp"],
+ *     seed: 42 // optional, makes the output reproducible
  *   },
  *   categoryResult,
  *   shippingProfile,
@@ -75,274 +132,154 @@ export interface GeneratedProduct {
  * });
  * ```
  */
-export function generateSheetProducts(
+export function generateProducts(
   options: ProductGeneratorOptions,
   categoryResult: any[],
   shippingProfile: any,
   defaultSalesChannel: any[]
 ): GeneratedProduct[] {
+  const template = getProductTemplate(options.template ?? "sheets");
   const {
     numProducts,
     variantsPerProduct,
-    priceRange = { min: 20, max: 80 },
+    priceRange = template.priceRange,
     currencies = ["eur", "usd"],
   } = options;
-
-  // Generate comprehensive size options: width 70-220 (increments of 10), length 180-240 (increments of 10)
-  const sizes: string[] = [];
-  for (let width = 70; width <= 220; width += 10) {
-    for (let length = 180; length <= 240; length += 10) {
-      sizes.push(`${width}x${length}`);
-    }
-  }
-
-  const colors = [
-    "White",
-    "Cream",
-    "Light Blue",
-    "Sage Green",
-    "Soft Pink",
-    "Charcoal",
-    "Navy",
-    "Burgundy",
-    "Lavender",
-    "Mint Green",
-    "Dusty Rose",
-    "Stone Gray",
-    "Ivory",
-    "Pearl",
-    "Silver",
-    "Platinum",
-    "Champagne",
-    "Beige",
-    "Taupe",
-    "Mocha",
-    "Espresso",
-    "Black",
-    "Midnight Blue",
-    "Royal Blue",
-    "Teal",
-    "Forest Green",
-    "Olive",
-    "Rose Gold",
-    "Blush",
-    "Coral",
-    "Peach",
-    "Apricot",
-    "Sunshine",
-    "Golden",
-    "Amber",
-    "Rust",
-    "Terracotta",
-    "Brick Red",
-    "Wine",
-    "Plum",
-    "Eggplant",
-    "Violet",
-    "Lilac",
-    "Periwinkle",
-    "Sky Blue",
-    "Aqua",
-    "Turquoise",
-    "Seafoam",
-    "Jade",
-    "Emerald",
-  ];
-
-  const heights = [
-    "20cm", // Ultra Low
-    "22cm", // Very Low
-    "25cm", // Standard
-    "27cm", // Medium Low
-    "30cm", // Deep
-    "32cm", // Medium Deep
-    "35cm", // Extra Deep
-    "37cm", // Very Deep
-    "40cm", // Super Deep
-    "42cm", // Ultra Deep
-    "45cm", // Maximum
-    "50cm", // Oversized
-  ];
-
-  // Sheet types for variety
-  const sheetTypes = [
-    "Egyptian Cotton",
-    "Bamboo",
-    "Linen",
-    "Percale",
-    "Sateen",
-    "Jersey",
-    "Flannel",
-    "Microfiber",
-    "Silk",
-    "Organic Cotton",
-    "Tencel",
-    "Hemp",
-  ];
-
-  // Descriptions for different sheet types
-  const sheetDescriptions: Record<string, string> = {
-    "Egyptian Cotton":
-      "Premium Egyptian cotton bed sheet set. Experience luxury and comfort with our long-staple cotton sheets, known for their exceptional softness and durability.",
-    Bamboo:
-      "Eco-friendly bamboo bed sheet set. Naturally antibacterial and moisture-wicking, perfect for sensitive skin and temperature regulation.",
-    Linen:
-      "100% pure linen bed sheet set. Breathable and naturally textured, offering a relaxed, lived-in luxury that gets softer with every wash.",
-    Percale:
-      "Crisp percale weave bed sheet set. Cool and breathable with a hotel-like feel, perfect for warm sleepers who prefer a crisp finish.",
-    Sateen:
-      "Silky sateen weave bed sheet set. Lustrous and smooth with a subtle sheen, offering a luxurious drape and elegant appearance.",
-    Jersey:
-      "Soft jersey knit bed sheet set. Stretchy and cozy like your favorite t-shirt, providing ultimate comfort and easy care.",
-    Flannel:
-      "Cozy flannel bed sheet set. Brushed for extra warmth and softness, perfect for cooler months and creating a warm, inviting bed.",
-    Microfiber:
-      "Ultra-soft microfiber bed sheet set. Wrinkle-resistant and easy-care, offering comfort and convenience at an affordable price.",
-    Silk: "Luxurious mulberry silk bed sheet set. Temperature-regulating and hypoallergenic, providing the ultimate in luxury bedding.",
-    "Organic Cotton":
-      "Certified organic cotton bed sheet set. Grown without harmful chemicals, offering pure comfort that's gentle on you and the environment.",
-    Tencel:
-      "Sustainable Tencel bed sheet set. Made from eucalyptus fibers, naturally cooling and moisture-wicking with a silky-smooth feel.",
-    Hemp: "Durable hemp bed sheet set. Naturally antimicrobial and environmentally friendly, becoming softer and more comfortable over time.",
+  // Products without option axes get Medusa's default option and a single default variant
+  const optionAxes = options.optionAxes ?? template.optionAxes;
+  const hasVariants = optionAxes.length > 0;
+  const axes = hasVariants ? optionAxes : [DEFAULT_OPTION_AXIS];
+
+  // Every random choice goes through this source, so a seed makes the output deterministic
+  const random =
+    options.seed !== undefined ? createSeededRandom(options.seed) : Math.random;
+
+  // The same for every product of the batch
+  const metadata: GeneratedProductMetadata = {
+    generator: PRODUCT_GENERATOR_NAME,
+    generator_version: PRODUCT_GENERATOR_VERSION,
+    generator_template: template.name,
+    generator_seed: options.seed ?? null,
+    generator_profile: options.profile ?? null,
+    requested_variants: variantsPerProduct,
+    image_count: options.images.amount,
+    image_width: options.images.size_width,
+    price_currencies: currencies.length,
+    region_prices: options.pricing?.regions?.length ?? 0,
+    price_rules: options.pricing?.rulesPerVariant ?? 0,
   };
 
+  // e.g. "catalog-10k-", kept handle-safe for profiles loaded from files
+  const handlePrefix = options.profile
+    ? `${options.profile.toLowerCase().replace(/[^a-z0-9]+/g, "-")}-`
+    : "";
+
   const products: GeneratedProduct[] = [];
 
   // Calculate total possible combinations for logging
-  const totalPossibleCombinations =
-    sizes.length * colors.length * heights.length;
+  const totalPossibleCombinations = countCombinations(axes);
   console.log(
     `📊 Total possible combinations: ${totalPossibleCombinations.toLocaleString()}`
   );
-  console.log(
-    `📐 Sizes: ${sizes.length} (${sizes[0]} to ${sizes[sizes.length - 1]})`
-  );
-  console.log(`🎨 Colors: ${colors.length}`);
-  console.log(
-    `📏 Heights: ${heights.length} (${heights[0]} to ${
-      heights[heights.length - 1]
-    })`
-  );
+  for (const axis of axes) {
+    console.log(
+      `📐 ${axis.title}: ${axis.values.length} (${axis.values[0]} to ${
+        axis.values[axis.values.length - 1]
+      })`
+    );
+  }
 
   for (let i = 0; i < numProducts; i++) {
-    const sheetType = sheetTypes[i % sheetTypes.length];
+    const productType = template.types[i % template.types.length];
     const productNumber = i + 1;
 
-    // Generate all possible combinations
-    const allCombinations: SheetVariantCombination[] = [];
-    for (const size of sizes) {
-      for (const color of colors) {
-        for (const height of heights) {
-          allCombinations.push({ Size: size, Color: color, Height: height });
-        }
-      }
-    }
-
-    // For large variant counts, ensure we can get up to 1000+ unique combinations
-    const maxVariants = Math.min(variantsPerProduct, allCombinations.length);
-
-    // Shuffle and take the required number of variants
-    const shuffledCombinations = allCombinations
-      .sort(() => Math.random() - 0.5)
-      .slice(0, maxVariants);
+    // Draw unique combinations straight from the option space instead of building all of them
+    const shuffledCombinations: VariantCombination[] = sampleCombinations(
+      axes,
+      variantsPerProduct,
+      random
+    );
 
     console.log(
-      `🛏️  Product ${productNumber} (${sheetType}): ${shuffledCombinations.length} variants`
+      `📦 Product ${productNumber} (${template.name}: ${productType}): ${shuffledCombinations.length} variants`
     );
 
     // Generate variants
     const variants = shuffledCombinations.map((combination) => {
       // Generate a random string for SKU uniqueness (8 characters, alphanumeric)
-      const randomSuffix = generateRandomString(8, true, true, true);
+      const randomSuffix = generateRandomString(8, true, true, true, random);
 
-      const variantSku = `SHEET-${sheetType
-        .replace(/\s+/g, "")
-        .toUpperCase()}-${combination.Size.replace(
-        "x",
-        "X"
-      )}-${combination.Color.replace(
-        /\s+/g,
-        ""
-      ).toUpperCase()}-${combination.Height.replace(
-        "cm",
-        "CM"
-      )}-${randomSuffix}`;
+      const optionValues = axes.map((axis) => combination[axis.title]);
+      const variantSku = [
+        template.skuPrefix,
+        ...[productType, ...(hasVariants ? optionValues : [])].map((part) =>
+          part.replace(/\s+/g, "").toUpperCase()
+        ),
+        randomSuffix,
+      ].join("-");
 
       // Generate random prices within the specified range
-      const prices = currencies.map((currency) => ({
-        amount: Math.floor(
-          Math.random() * (priceRange.max - priceRange.min) + priceRange.min
-        ),
-        currency_code: currency,
-      }));
+      const prices = buildVariantPrices(
+        { currencies, ...options.pricing },
+        () =>
+          Math.floor(
+            random() * (priceRange.max - priceRange.min) + priceRange.min
+          )
+      );
 
       return {
-        title:
-          `${combination.Size} / ${combination.Color} / ${combination.Height}`.trim(),
+        title: hasVariants
+          ? optionValues.join(" / ").trim()
+          : "Default variant",
         sku: variantSku,
         options: combination,
+        manage_inventory: template.manageInventory,
         prices,
       };
     });
 
-    // Get unique values for each option from selected variants
-    const uniqueSizes = [...new Set(shuffledCombinations.map((c) => c.Size))];
-    const uniqueColors = [...new Set(shuffledCombinations.map((c) => c.Color))];
-    const uniqueHeights = [
-      ...new Set(shuffledCombinations.map((c) => c.Height)),
-    ];
-
-    // Find the sheets category, fallback to first category if not found
+    // Find the template's category, fallback to first category if not found
     const categoryId =
-      categoryResult.find((cat) => cat.name === "Sheets")?.id ||
-      categoryResult.find((cat) => cat.name === "Bedding")?.id ||
-      categoryResult[0]?.id;
+      template.categoryNames
+        .map((name) => categoryResult.find((cat) => cat.name === name)?.id)
+        .find(Boolean) || categoryResult[0]?.id;
 
     const product: GeneratedProduct = {
-      title: `${sheetType} Bed Sheet Set ${productNumber} ${
+      title: `${[productType, template.titleNoun].filter(Boolean).join(" ")} ${productNumber} ${
         options.title_suffix ? options.title_suffix : ""
       }`,
       category_ids: categoryId ? [categoryId] : [],
       description:
-        sheetDescriptions[sheetType] ||
-        `Premium ${sheetType.toLowerCase()} bed sheet set. Experience luxury and comfort with our high-quality ${sheetType.toLowerCase()} sheets, designed for the perfect night's sleep.`,
-      handle: `${sheetType
+        template.descriptions?.[productType] ||
+        template.fallbackDescription(productType),
+      // Prefixed with the seed profile, profiles reuse the same handleIds
+      handle: `${handlePrefix}${productType
         .toLowerCase()
-        .replace(/\s+/g, "-")}-sheet-set-${productNumber}-${options.handleId}`,
-      weight: Math.floor(Math.random() * 400 + 600), // Random weight between 600-1000g
+        .replace(/\s+/g, "-")}-${template.handleNoun}-${productNumber}-${
+        options.handleId
+      }`,
+      // Random weight within the template's range, e.g. 600-1000g for sheets
+      weight: Math.floor(
+        random() * (template.weightRange.max - template.weightRange.min) +
+          template.weightRange.min
+      ),
       status: ProductStatus.PUBLISHED,
       shipping_profile_id: shippingProfile.id,
-      images: getImages(options.images.amount, options.images.size_width),
-      options: [
-        {
-          title: "Size",
-          values: uniqueSizes.sort((a, b) => {
-            // Sort by width first, then height
-            const [aW, aH] = a.split("x").map(Number);
-            const [bW, bH] = b.split("x").map(Number);
-            return aW === bW ? aH - bH : aW - bW;
-          }),
-        },
-        {
-          title: "Color",
-          values: uniqueColors.sort(),
-        },
-        {
-          title: "Height",
-          values: uniqueHeights.sort((a, b) => {
-            // Sort by numerical value
-            const aNum = parseInt(a.replace("cm", ""));
-            const bNum = parseInt(b.replace("cm", ""));
-            return aNum - bNum;
-          }),
-        },
-      ],
+      images: getImages(options.images.amount, options.images.urls),
+      // Get unique values for each option from selected variants
+      options: axes.map((axis) => ({
+        title: axis.title,
+        values: sortAxisValues(axis, [
+          ...new Set(shuffledCombinations.map((c) => c[axis.title])),
+        ]),
+      })),
       variants,
       sales_channels: [
         {
           id: defaultSalesChannel[0].id,
         },
       ],
+      metadata: { ...metadata },
     };
 
     products.push(product);
@@ -352,53 +289,47 @@ export function generateSheetProducts(
 }
 
 /**
- * Get images for a product
- * @param amount Number of images to return (optional)
- * @returns Array of image objects - default 3 images or specified amount
+ * Generates a list of sheet products with customizable variants
+ * Shorthand for `generateProducts` with the "sheets" template
  */
-function getImages(amount?: number, size?: number): Array<{ url: string }> {
-  const defaultImages = images(size);
+export function generateSheetProducts(
+  options: ProductGeneratorOptions,
+  categoryResult: any[],
+  shippingProfile: any,
+  defaultSalesChannel: any[]
+): GeneratedProduct[] {
+  return generateProducts(
+    { ...options, template: "sheets" },
+    categoryResult,
+    shippingProfile,
+    defaultSalesChannel
+  );
+}
 
-  // If no amount specified, return default 3 images
+/**
+ * Get images for a product
+ * @param amount Number of images to return
+ * @param urls Uploaded fixture URLs, cycled through when there are fewer than `amount`
+ * @returns Array of image objects
+ */
+export function getImages(
+  amount: number,
+  urls: string[] = []
+): Array<{ url: string }> {
   if (!amount || amount <= 0) {
-    return defaultImages;
+    return [];
   }
 
-  // If amount is less than or equal to default images length, return slice
-  if (amount <= defaultImages.length) {
-    return defaultImages.slice(0, amount);
+  if (!urls.length) {
+    throw new Error(
+      `No image fixtures to generate ${amount} images from, upload them with uploadImageFixtures and pass them as images.urls`
+    );
   }
 
-  // If amount is more than available images, cycle through them
   const result: Array<{ url: string }> = [];
   for (let i = 0; i < amount; i++) {
-    const imageIndex = i % defaultImages.length;
-    result.push(defaultImages[imageIndex]);
+    result.push({ url: urls[i % urls.length] });
   }
 
   return result;
 }
-
-/**
- * Default image set for products
- * @returns Array of 3 default images
- */
-function images(size?: number): Array<{ url: string }> {
-  return [
-    {
-      url: `https://res.cloudinary.com/do9lggzv1/image/fetch/c_limit,w_${
-        size || 1920
-      }/f_auto/q_auto/v1/https://sadrlmedusaprod.blob.core.windows.net/medusaprod/medusaprod/produktbilleder/unikka/hmkuv0902007hb.jpg?_a=BAVAZGE70`,
-    },
-    {
-      url: `https://res.cloudinary.com/do9lggzv1/image/fetch/c_limit,w_${
-        size || 1920
-      }/f_auto/q_auto/v1/https://sadrlmedusaprod.blob.core.windows.net/medusaprod/medusaprod/produktbilleder/unikka/hmkuv0902007blb.jpg?_a=BAVAZGE70`,
-    },
-    {
-      url: `https://res.cloudinary.com/do9lggzv1/image/fetch/c_limit,w_${
-        size || 1920
-      }/f_auto/q_auto/v1/https://sadrlmedusaprod.blob.core.windows.net/medusaprod/medusaprod/produktbilleder/hmkuv0902007lgb.jpg?_a=BAVAZGE70`,
-    },
-  ];
-}
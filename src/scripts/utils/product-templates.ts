@@ -0,0 +1,237 @@
+import { OptionAxisDefinition, SHEET_OPTION_AXES } from "./option-axes";
+
+/**
+ * Describes one kind of product the generator can produce: the product types
+ * it cycles through, how titles, handles, descriptions and SKUs are built,
+ * its option axes and its price model
+ */
+export interface ProductTemplate {
+  name: string;
+  // Product types the generated products cycle through, e.g. "Bamboo"
+  types: string[];
+  // Appended to the type in titles, e.g. "Bamboo Bed Sheet Set 1"
+  titleNoun: string;
+  // Appended to the type in handles, e.g. "bamboo-sheet-set-1-11"
+  handleNoun: string;
+  skuPrefix: string;
+  descriptions?: Record<string, string>;
+  fallbackDescription: (type: string) => string;
+  // Category names looked up in order, falling back to the first category
+  categoryNames: string[];
+  // An empty list produces products without variants (a single default variant)
+  optionAxes: OptionAxisDefinition[];
+  priceRange: { min: number; max: number };
+  weightRange: { min: number; max: number };
+  manageInventory?: boolean;
+}
+
+// Sheet types for variety
+const SHEET_TYPES = [
+  "Egyptian Cotton",
+  "Bamboo",
+  "Linen",
+  "Percale",
+  "Sateen",
+  "Jersey",
+  "Flannel",
+  "Microfiber",
+  "Silk",
+  "Organic Cotton",
+  "Tencel",
+  "Hemp",
+];
+
+// Descriptions for different sheet types
+const SHEET_DESCRIPTIONS: Record<string, string> = {
+  "Egyptian Cotton":
+    "Premium Egyptian cotton bed sheet set. Experience luxury and comfort with our long-staple cotton sheets, known for their exceptional softness and durability.",
+  Bamboo:
+    "Eco-friendly bamboo bed sheet set. Naturally antibacterial and moisture-wicking, perfect for sensitive skin and temperature regulation.",
+  Linen:
+    "100% pure linen bed sheet set. Breathable and naturally textured, offering a relaxed, lived-in luxury that gets softer with every wash.",
+  Percale:
+    "Crisp percale weave bed sheet set. Cool and breathable with a hotel-like feel, perfect for warm sleepers who prefer a crisp finish.",
+  Sateen:
+    "Silky sateen weave bed sheet set. Lustrous and smooth with a subtle sheen, offering a luxurious drape and elegant appearance.",
+  Jersey:
+    "Soft jersey knit bed sheet set. Stretchy and cozy like your favorite t-shirt, providing ultimate comfort and easy care.",
+  Flannel:
+    "Cozy flannel bed sheet set. Brushed for extra warmth and softness, perfect for cooler months and creating a warm, inviting bed.",
+  Microfiber:
+    "Ultra-soft microfiber bed sheet set. Wrinkle-resistant and easy-care, offering comfort and convenience at an affordable price.",
+  Silk: "Luxurious mulberry silk bed sheet set. Temperature-regulating and hypoallergenic, providing the ultimate in luxury bedding.",
+  "Organic Cotton":
+    "Certified organic cotton bed sheet set. Grown without harmful chemicals, offering pure comfort that's gentle on you and the environment.",
+  Tencel:
+    "Sustainable Tencel bed sheet set. Made from eucalyptus fibers, naturally cooling and moisture-wicking with a silky-smooth feel.",
+  Hemp: "Durable hemp bed sheet set. Naturally antimicrobial and environmentally friendly, becoming softer and more comfortable over time.",
+};
+
+const sheetsTemplate: ProductTemplate = {
+  name: "sheets",
+  types: SHEET_TYPES,
+  titleNoun: "Bed Sheet Set",
+  handleNoun: "sheet-set",
+  skuPrefix: "SHEET",
+  descriptions: SHEET_DESCRIPTIONS,
+  fallbackDescription: (type) =>
+    `Premium ${type.toLowerCase()} bed sheet set. Experience luxury and comfort with our high-quality ${type.toLowerCase()} sheets, designed for the perfect night's sleep.`,
+  categoryNames: ["Sheets", "Bedding"],
+  optionAxes: SHEET_OPTION_AXES,
+  priceRange: { min: 20, max: 80 },
+  weightRange: { min: 600, max: 1000 },
+};
+
+const apparelTemplate: ProductTemplate = {
+  name: "apparel",
+  types: [
+    "Classic Tee",
+    "Oxford Shirt",
+    "Polo Shirt",
+    "Hoodie",
+    "Crewneck Sweatshirt",
+    "Chino Pants",
+    "Denim Jacket",
+  ],
+  titleNoun: "",
+  handleNoun: "apparel",
+  skuPrefix: "APP",
+  fallbackDescription: (type) =>
+    `Everyday ${type.toLowerCase()} made from durable, soft fabrics. Cut for a comfortable fit that keeps its shape wash after wash.`,
+  categoryNames: ["Shirts", "Sweatshirts", "Pants"],
+  optionAxes: [
+    {
+      title: "Size",
+      values: ["XS", "S", "M", "L", "XL", "XXL", "3XL"],
+      sort: "none",
+    },
+    {
+      title: "Color",
+      values: [
+        "Black",
+        "White",
+        "Navy",
+        "Heather Gray",
+        "Olive",
+        "Burgundy",
+        "Sand",
+        "Forest Green",
+        "Royal Blue",
+        "Charcoal",
+      ],
+      sort: "alphabetical",
+    },
+  ],
+  priceRange: { min: 15, max: 120 },
+  weightRange: { min: 150, max: 900 },
+};
+
+const furnitureTemplate: ProductTemplate = {
+  name: "furniture",
+  types: [
+    "Dining Table",
+    "Coffee Table",
+    "Desk",
+    "Bookshelf",
+    "Sideboard",
+    "Wardrobe",
+  ],
+  titleNoun: "",
+  handleNoun: "furniture",
+  skuPrefix: "FURN",
+  fallbackDescription: (type) =>
+    `Solid ${type.toLowerCase()} built to last. Choose the dimensions, material and finish that fit your space.`,
+  categoryNames: ["Furniture"],
+  optionAxes: [
+    {
+      title: "Dimensions",
+      values: [
+        "60x120",
+        "70x140",
+        "80x160",
+        "90x180",
+        "90x200",
+        "100x220",
+        "100x240",
+      ],
+      sort: "dimensions",
+    },
+    {
+      title: "Material",
+      values: ["Oak", "Walnut", "Ash", "Birch", "Pine", "Steel"],
+      sort: "alphabetical",
+    },
+    {
+      title: "Finish",
+      values: ["Natural", "Oiled", "Lacquered", "White Wash", "Matte Black"],
+      sort: "alphabetical",
+    },
+  ],
+  priceRange: { min: 150, max: 2500 },
+  weightRange: { min: 8000, max: 90000 },
+};
+
+const digitalTemplate: ProductTemplate = {
+  name: "digital",
+  types: [
+    "E-book",
+    "Online Course",
+    "Software License",
+    "Music Album",
+    "Stock Photo Pack",
+  ],
+  titleNoun: "",
+  handleNoun: "digital",
+  skuPrefix: "DIGI",
+  fallbackDescription: (type) =>
+    `Instant access ${type.toLowerCase()}. Delivered digitally right after purchase, no shipping required.`,
+  categoryNames: ["Digital", "Merch"],
+  optionAxes: [],
+  priceRange: { min: 5, max: 60 },
+  weightRange: { min: 0, max: 0 },
+  manageInventory: false,
+};
+
+const templates = new Map<string, ProductTemplate>(
+  [sheetsTemplate, apparelTemplate, furnitureTemplate, digitalTemplate].map(
+    (template) => [template.name, template]
+  )
+);
+
+/**
+ * Registers a product template, replacing any template with the same name
+ * @param template Template to register
+ *
+ * @example
+ * ```typescript
+ * registerProductTemplate({ ...getProductTemplate("apparel"), name: "shoes" });
+ * ```
+ */
+export function registerProductTemplate(template: ProductTemplate): void {
+  templates.set(template.name, template);
+}
+
+/**
+ * Looks up a registered product template by name
+ * @param name Template name, e.g. "sheets", "apparel", "furniture" or "digital"
+ * @returns The template
+ */
+export function getProductTemplate(name: string): ProductTemplate {
+  const template = templates.get(name);
+  if (!template) {
+    throw new Error(
+      `Unknown product template "${name}". Available templates: ${listProductTemplates().join(
+        ", "
+      )}`
+    );
+  }
+
+  return template;
+}
+
+/**
+ * Lists the names of all registered product templates
+ */
+export function listProductTemplates(): string[] {
+  return [...templates.keys()];
+}
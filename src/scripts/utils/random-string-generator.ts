@@ -1,5 +1,54 @@
 import { randomBytes, randomUUID } from "crypto";
 
+// ============================================================================
+// SEEDED RANDOM SOURCE
+// ============================================================================
+
+/**
+ * A function returning a float in [0, 1), compatible with Math.random
+ */
+export type RandomSource = () => number;
+
+/**
+ * Hashes a seed (number or string) into a 32-bit integer state
+ */
+function hashSeed(seed: number | string): number {
+  const text = String(seed);
+  let hash = 1779033703 ^ text.length;
+
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 3432918353);
+    hash = (hash << 13) | (hash >>> 19);
+  }
+
+  return hash >>> 0;
+}
+
+/**
+ * Creates a deterministic pseudo random number generator (mulberry32)
+ * The same seed always produces the same sequence of numbers
+ * @param seed Seed number or string
+ * @returns Random source that can be used in place of Math.random
+ *
+ * @example
+ * ```typescript
+ * const random = createSeededRandom(42);
+ * random() // 0.21758791827596724 (always the same for seed 42)
+ * generateRandomString(8, true, true, true, random) // identical on every machine
+ * ```
+ */
+export function createSeededRandom(seed: number | string): RandomSource {
+  let state = hashSeed(seed);
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
 // ============================================================================
 // RANDOM STRING UTILITIES
 // ============================================================================
@@ -10,6 +59,7 @@ import { randomBytes, randomUUID } from "crypto";
  * @param includeUppercase Whether to include uppercase letters (default: true)
  * @param includeLowercase Whether to include lowercase letters (default: true)
  * @param includeNumbers Whether to include numbers (default: true)
+ * @param random Random source to draw from (default: Math.random)
  * @returns Random string of specified length
  *
  * @example
@@ -23,7 +73,8 @@ export function generateRandomString(
   length: number,
   includeUppercase = true,
   includeLowercase = true,
-  includeNumbers = true
+  includeNumbers = true,
+  random: RandomSource = Math.random
 ): string {
   const uppercase = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
   const lowercase = "abcdefghijklmnopqrstuvwxyz";
@@ -40,7 +91,7 @@ export function generateRandomString(
 
   let result = "";
   for (let i = 0; i < length; i++) {
-    const randomIndex = Math.floor(Math.random() * charset.length);
+    const randomIndex = Math.floor(random() * charset.length);
     result += charset[randomIndex];
   }
 
@@ -159,6 +210,7 @@ export function generateBase64String(length: number): string {
  * Generates a random string with custom character set
  * @param length Length of the string
  * @param charset Custom character set to use
+ * @param random Random source to draw from (default: Math.random)
  * @returns Random string using custom charset
  *
  * @example
@@ -169,7 +221,8 @@ export function generateBase64String(length: number): string {
  */
 export function generateCustomRandomString(
   length: number,
-  charset: string
+  charset: string,
+  random: RandomSource = Math.random
 ): string {
   if (charset.length === 0) {
     throw new Error("Charset cannot be empty");
@@ -177,7 +230,7 @@ export function generateCustomRandomString(
 
   let result = "";
   for (let i = 0; i < length; i++) {
-    const randomIndex = Math.floor(Math.random() * charset.length);
+    const randomIndex = Math.floor(random() * charset.length);
     result += charset[randomIndex];
   }
 
@@ -0,0 +1,74 @@
+// Attribute of the rule-based prices, every rule targets a different (synthetic) customer group
+export const PRICE_RULE_ATTRIBUTE = "customer.groups.id";
+
+export interface PriceRegion {
+  id: string;
+  currency_code: string;
+}
+
+export interface VariantPriceShape {
+  // Currency codes that get a plain price
+  currencies: string[];
+  // Regions that get an extra region-specific price in their currency
+  regions?: PriceRegion[];
+  // Number of extra rule-based prices, in the first currency
+  rulesPerVariant?: number;
+}
+
+export interface VariantPrice {
+  amount: number;
+  currency_code: string;
+  rules?: Record<string, string>;
+}
+
+/**
+ * Returns the customer group id used by the n-th price rule of a variant
+ */
+export function priceRuleValue(index: number): string {
+  return `perf-group-${index + 1}`;
+}
+
+/**
+ * Builds the prices of a variant: one per currency, one per region and one per
+ * price rule, so the size of every price set can be controlled independently
+ * @param shape Currencies, regions and number of rule-based prices
+ * @param amount Returns the amount of the next price
+ * @returns The prices, ready for the product and pricing workflows
+ *
+ * @example
+ * ```typescript
+ * buildVariantPrices(
+ *   { currencies: ["eur", "usd"], regions: [{ id: "reg_1", currency_code: "eur" }], rulesPerVariant: 1 },
+ *   () => 100
+ * );
+ * // [
+ * //   { amount: 100, currency_code: "eur" },
+ * //   { amount: 100, currency_code: "usd" },
+ * //   { amount: 100, currency_code: "eur", rules: { region_id: "reg_1" } },
+ * //   { amount: 100, currency_code: "eur", rules: { "customer.groups.id": "perf-group-1" } },
+ * // ]
+ * ```
+ */
+export function buildVariantPrices(
+  shape: VariantPriceShape,
+  amount: () => number
+): VariantPrice[] {
+  const { currencies, regions = [], rulesPerVariant = 0 } = shape;
+
+  return [
+    ...currencies.map((currency_code) => ({
+      amount: amount(),
+      currency_code,
+    })),
+    ...regions.map((region) => ({
+      amount: amount(),
+      currency_code: region.currency_code,
+      rules: { region_id: region.id },
+    })),
+    ...Array.from({ length: rulesPerVariant }, (_, i) => ({
+      amount: amount(),
+      currency_code: currencies[0],
+      rules: { [PRICE_RULE_ATTRIBUTE]: priceRuleValue(i) },
+    })),
+  ];
+}